@@ -0,0 +1,127 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getConfig, getWorkspaceRoot } from './codebunny-config';
+
+const CACHE_FILE = 'analysis.json';
+
+// Entries used least recently are dropped beyond this, so the cache cannot grow without bound
+const MAX_ENTRIES = 5000;
+
+interface CacheEntry {
+  hash: string;
+  createdAt: number;
+  usedAt: number;
+  value: unknown;
+}
+
+/**
+ * Analysis results persisted between runs, keyed by name (usually a file path) and content hash
+ */
+export interface AnalysisCache {
+  /** Null when caching is disabled: results are only kept for this run */
+  dir: string | null;
+  version: string;
+  entries: Record<string, CacheEntry>;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Read the analysis-cache input, then cache.enabled; the directory comes from CODEBUNNY_CACHE_DIR,
+ * which the action points at the Actions cache, then cache.dir relative to the repository
+ */
+export function getAnalysisCacheDir(): string | null {
+  const { cache } = getConfig();
+  const raw = process.env.INPUT_ANALYSIS_CACHE || core.getInput('analysis-cache');
+  const enabled = raw ? raw.trim().toLowerCase() !== 'false' : cache.enabled;
+  const dir = process.env.CODEBUNNY_CACHE_DIR || (cache.dir && path.resolve(getWorkspaceRoot(), cache.dir));
+  return enabled && dir ? dir : null;
+}
+
+/**
+ * Load the cache from disk, starting empty when it is missing, unreadable or from another analyzer version
+ */
+export async function loadAnalysisCache(version: string, dir = getAnalysisCacheDir()): Promise<AnalysisCache> {
+  const cache: AnalysisCache = { dir, version, entries: {}, hits: 0, misses: 0 };
+  if (!dir) {
+    return cache;
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, CACHE_FILE), 'utf-8');
+  } catch {
+    core.debug(`No analysis cache found in ${dir}`);
+    return cache;
+  }
+
+  try {
+    const data = JSON.parse(content);
+    if (data?.version !== version) {
+      core.info(`Analysis cache was written by analyzer ${data?.version}, starting a new one for ${version}`);
+      return cache;
+    }
+    cache.entries = data.entries || {};
+    core.debug(`Loaded ${Object.keys(cache.entries).length} analysis cache entries from ${dir}`);
+  } catch (error) {
+    core.warning(`Ignoring unreadable analysis cache in ${dir}: ${error}`);
+  }
+  return cache;
+}
+
+/**
+ * SHA-256 of a file's content, the key cached results are matched on
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * The cached value for a key if it was computed from the same hash, and within maxAgeMs when given
+ */
+export function getCached<T>(cache: AnalysisCache, key: string, hash: string, maxAgeMs?: number): T | undefined {
+  const entry = cache.entries[key];
+  const now = Date.now();
+  if (!entry || entry.hash !== hash || (maxAgeMs !== undefined && now - entry.createdAt > maxAgeMs)) {
+    cache.misses++;
+    return undefined;
+  }
+  cache.hits++;
+  entry.usedAt = now;
+  return entry.value as T;
+}
+
+export function setCached<T>(cache: AnalysisCache, key: string, hash: string, value: T): T {
+  const now = Date.now();
+  cache.entries[key] = { hash, createdAt: now, usedAt: now, value };
+  return value;
+}
+
+/**
+ * Write the cache back to disk, keeping the most recently used entries
+ * Failures are logged as warnings since the cache only saves work
+ */
+export async function saveAnalysisCache(cache: AnalysisCache): Promise<void> {
+  if (!cache.dir) {
+    return;
+  }
+
+  const entries = Object.entries(cache.entries)
+    .sort((a, b) => b[1].usedAt - a[1].usedAt)
+    .slice(0, MAX_ENTRIES);
+
+  try {
+    await fs.mkdir(cache.dir, { recursive: true });
+    // Keeps a cache directory inside the working tree out of git
+    await fs.writeFile(path.join(cache.dir, '.gitignore'), '*\n');
+    // Write then rename, so an interrupted run never leaves a truncated cache behind
+    const target = path.join(cache.dir, CACHE_FILE);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify({ version: cache.version, entries: Object.fromEntries(entries) }));
+    await fs.rename(`${target}.tmp`, target);
+    core.info(`Analysis cache: ${cache.hits} reused, ${cache.misses} analyzed, ${entries.length} entries saved`);
+  } catch (error) {
+    core.warning(`Failed to save analysis cache to ${cache.dir}: ${error}`);
+  }
+}
@@ -0,0 +1,337 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * What the TypeScript parser found in one TS/JS source file
+ */
+export interface ScriptAnalysis {
+  imports: string[];
+  exports: { functions: string[]; components: string[]; hooks: string[] };
+  /** Declaration styles, e.g. "exported arrow functions" or "interfaces" */
+  styles: Array<{ type: 'function' | 'component' | 'type' | 'constant'; pattern: string }>;
+  naming: { functions: string[]; types: string[] };
+  componentPatterns: string[];
+  dataFlowPatterns: string[];
+  errorHandlingPatterns: string[];
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+};
+
+const BUILT_IN_HOOKS = new Set([
+  'useState',
+  'useEffect',
+  'useLayoutEffect',
+  'useCallback',
+  'useMemo',
+  'useRef',
+  'useReducer',
+  'useContext',
+  'useTransition',
+  'useDeferredValue',
+  'useId',
+]);
+
+const DATA_FLOW_CALLS = new Map<string, string>([
+  ['useState', 'Local component state (useState)'],
+  ['useReducer', 'Reducer state (useReducer)'],
+  ['useContext', 'React Context'],
+  ['createContext', 'React Context'],
+  ['useSelector', 'Redux store (useSelector/useDispatch)'],
+  ['useDispatch', 'Redux store (useSelector/useDispatch)'],
+  ['useQuery', 'Server state via query hooks (useQuery)'],
+  ['useSWR', 'Server state via query hooks (useSWR)'],
+  ['fetch', 'HTTP via fetch'],
+  ['Promise.all', 'Parallel async work (Promise.all)'],
+  ['Promise.allSettled', 'Parallel async work (Promise.allSettled)'],
+  ['emit', 'Event emitters'],
+]);
+
+const LOGGING_CALLS = /^(console\.(error|warn|log)|core\.(warning|error|debug|info)|logger\.\w+|log\.\w+)$/;
+
+/**
+ * Whether the file is parsed with the TypeScript compiler rather than the regex profiles
+ */
+export function isScriptFile(filepath: string): boolean {
+  return path.extname(filepath).toLowerCase() in SCRIPT_KINDS;
+}
+
+/**
+ * Parse a TS/JS file and collect its imports, exports, declaration styles, naming and
+ * architecture patterns from the syntax tree, so comments and strings never count
+ */
+export function analyzeScript(content: string, filepath: string): ScriptAnalysis {
+  const ext = path.extname(filepath).toLowerCase();
+  const source = ts.createSourceFile(filepath, content, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[ext]);
+  const analysis: ScriptAnalysis = {
+    imports: [],
+    exports: { functions: [], components: [], hooks: [] },
+    styles: [],
+    naming: { functions: [], types: [] },
+    componentPatterns: [],
+    dataFlowPatterns: [],
+    errorHandlingPatterns: [],
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) {
+      if (node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        analysis.imports.push(node.moduleSpecifier.text);
+      }
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      recordFunction(analysis, node.name.text, node, node, 'function declarations');
+    } else if (ts.isVariableStatement(node)) {
+      recordVariables(analysis, node);
+    } else if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+      analysis.naming.functions.push(classifyCase(node.name.text));
+    } else if (ts.isClassDeclaration(node) && node.name) {
+      recordClass(analysis, node);
+    } else if (ts.isInterfaceDeclaration(node)) {
+      analysis.naming.types.push(classifyCase(node.name.text));
+      analysis.styles.push({ type: 'type', pattern: 'interfaces' });
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      analysis.naming.types.push(classifyCase(node.name.text));
+      analysis.styles.push({ type: 'type', pattern: 'type aliases' });
+    } else if (ts.isEnumDeclaration(node)) {
+      analysis.naming.types.push(classifyCase(node.name.text));
+      analysis.styles.push({ type: 'type', pattern: 'enums' });
+    } else if (ts.isExportAssignment(node) && !node.isExportEquals) {
+      analysis.styles.push({ type: 'function', pattern: 'default exports' });
+    } else if (ts.isAsExpression(node) && ts.isTypeReferenceNode(node.type) && node.type.getText() === 'const') {
+      analysis.styles.push({ type: 'constant', pattern: 'as const assertions' });
+    } else if (ts.isCallExpression(node)) {
+      recordCall(analysis, node);
+    } else if (ts.isNewExpression(node)) {
+      recordNew(analysis, node);
+    } else if (ts.isTryStatement(node)) {
+      recordTry(analysis, node);
+    } else if (ts.isThrowStatement(node)) {
+      recordThrow(analysis, node);
+    } else if (ts.isAwaitExpression(node)) {
+      analysis.dataFlowPatterns.push('async/await');
+    } else if (ts.isForOfStatement(node) && node.awaitModifier) {
+      analysis.dataFlowPatterns.push('Async iteration (for await)');
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.InstanceOfKeyword) {
+      if (/Error$/.test(node.right.getText())) {
+        analysis.errorHandlingPatterns.push('instanceof error narrowing');
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return analysis;
+}
+
+/**
+ * Name a function-like declaration as a component, a hook or a plain function
+ */
+function recordFunction(
+  analysis: ScriptAnalysis,
+  name: string,
+  declaration: ts.Node,
+  fn: ts.Node,
+  style: string
+): void {
+  const exported = isExported(declaration);
+  if (hasModifier(declaration, ts.SyntaxKind.DefaultKeyword)) {
+    analysis.styles.push({ type: 'function', pattern: 'default exports' });
+  }
+
+  if (/^use[A-Z0-9]/.test(name)) {
+    analysis.componentPatterns.push('Custom hooks');
+    analysis.naming.functions.push(classifyCase(name));
+    if (exported) analysis.exports.hooks.push(name);
+    return;
+  }
+
+  if (/^[A-Z]/.test(name) && returnsJsx(fn)) {
+    analysis.componentPatterns.push('Function components');
+    if (exported) analysis.exports.components.push(name);
+    analysis.styles.push({ type: 'component', pattern: `${exported ? 'exported ' : ''}function components` });
+    return;
+  }
+
+  analysis.naming.functions.push(classifyCase(name));
+  if (exported) {
+    analysis.exports.functions.push(name);
+    analysis.styles.push({ type: 'function', pattern: `exported ${style}` });
+  }
+}
+
+function recordVariables(analysis: ScriptAnalysis, statement: ts.VariableStatement): void {
+  const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+  const isTopLevel = ts.isSourceFile(statement.parent);
+
+  for (const declaration of statement.declarationList.declarations) {
+    if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+
+    const name = declaration.name.text;
+    const fn = unwrapFunction(declaration.initializer);
+    if (fn) {
+      const style = ts.isArrowFunction(fn) ? 'arrow functions' : 'function expressions';
+      recordFunction(analysis, name, statement, fn, style);
+    } else if (isConst && isTopLevel && /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)+$/.test(name)) {
+      analysis.styles.push({ type: 'constant', pattern: 'UPPER_SNAKE_CASE module constants' });
+    }
+  }
+}
+
+function recordClass(analysis: ScriptAnalysis, node: ts.ClassDeclaration): void {
+  const name = node.name!.text;
+  analysis.naming.types.push(classifyCase(name));
+
+  const heritage = (node.heritageClauses || [])
+    .filter((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+    .flatMap((clause) => clause.types.map((type) => type.expression.getText()));
+  const members = node.members.map((member) => (member.name ? member.name.getText() : ''));
+
+  if (heritage.some((base) => /(^|\.)(Pure)?Component$/.test(base))) {
+    analysis.componentPatterns.push('Class components');
+    if (members.includes('componentDidCatch') || members.includes('getDerivedStateFromError')) {
+      analysis.errorHandlingPatterns.push('React Error Boundaries');
+    }
+  } else if (heritage.some((base) => /Error$/.test(base))) {
+    analysis.errorHandlingPatterns.push('Custom Error subclasses');
+  }
+
+  if (isExported(node)) {
+    analysis.styles.push({ type: 'type', pattern: 'exported classes' });
+  }
+}
+
+function recordCall(analysis: ScriptAnalysis, node: ts.CallExpression): void {
+  const callee = getCalleeName(node.expression);
+  const method = callee.split('.').pop() || '';
+
+  if (BUILT_IN_HOOKS.has(method)) {
+    analysis.componentPatterns.push(`React Hooks (${method})`);
+  }
+  if (method === 'forwardRef') analysis.componentPatterns.push('React forwardRef');
+  if (method === 'memo') analysis.componentPatterns.push('React.memo optimization');
+  if (method === 'createContext') analysis.componentPatterns.push('React Context');
+
+  const dataFlow = DATA_FLOW_CALLS.get(callee) || DATA_FLOW_CALLS.get(method);
+  if (dataFlow) analysis.dataFlowPatterns.push(dataFlow);
+  if (callee === 'axios' || callee.startsWith('axios.')) analysis.dataFlowPatterns.push('HTTP via axios');
+
+  if (method === 'then' && ts.isPropertyAccessExpression(node.expression)) {
+    analysis.dataFlowPatterns.push('Promise chains (.then)');
+  }
+  if (method === 'catch' && ts.isPropertyAccessExpression(node.expression)) {
+    analysis.errorHandlingPatterns.push('Promise .catch() handlers');
+  }
+  if (['map', 'filter', 'reduce'].includes(method) && ts.isPropertyAccessExpression(node.expression)) {
+    const receiver = node.expression.expression;
+    if (ts.isCallExpression(receiver) && ['map', 'filter', 'reduce'].includes(getCalleeName(receiver.expression).split('.').pop() || '')) {
+      analysis.dataFlowPatterns.push('Chained array transforms (map/filter/reduce)');
+    }
+  }
+}
+
+function recordNew(analysis: ScriptAnalysis, node: ts.NewExpression): void {
+  const name = node.expression.getText();
+  if (name === 'EventEmitter') analysis.dataFlowPatterns.push('Event emitters');
+  if (name === 'Promise') analysis.dataFlowPatterns.push('Manual Promise construction');
+}
+
+function recordTry(analysis: ScriptAnalysis, node: ts.TryStatement): void {
+  analysis.errorHandlingPatterns.push('Try-catch error handling');
+  if (node.finallyBlock) {
+    analysis.errorHandlingPatterns.push('finally cleanup');
+  }
+
+  const handler = node.catchClause?.block;
+  if (!handler) return;
+
+  if (handler.statements.length === 0) {
+    analysis.errorHandlingPatterns.push('Empty catch blocks (errors swallowed)');
+    return;
+  }
+
+  let rethrows = false;
+  let logs = false;
+  const scan = (child: ts.Node): void => {
+    if (ts.isThrowStatement(child)) rethrows = true;
+    if (ts.isCallExpression(child) && LOGGING_CALLS.test(getCalleeName(child.expression))) logs = true;
+    // Nested functions handle their own errors
+    if (!ts.isFunctionLike(child)) ts.forEachChild(child, scan);
+  };
+  ts.forEachChild(handler, scan);
+
+  if (rethrows) analysis.errorHandlingPatterns.push('Catch and rethrow');
+  else if (logs) analysis.errorHandlingPatterns.push('Log and continue in catch');
+}
+
+function recordThrow(analysis: ScriptAnalysis, node: ts.ThrowStatement): void {
+  if (!node.expression || !ts.isNewExpression(node.expression)) return;
+
+  const name = node.expression.expression.getText();
+  analysis.errorHandlingPatterns.push(name === 'Error' ? 'Error throwing' : `Typed errors (throw new ${name})`);
+}
+
+/**
+ * The function behind an initializer, looking through wrappers such as memo, forwardRef,
+ * useCallback and type assertions
+ */
+function unwrapFunction(node: ts.Expression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node;
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return unwrapFunction(node.expression);
+  }
+  if (ts.isCallExpression(node) && /(^|\.)(memo|forwardRef|useCallback)$/.test(getCalleeName(node.expression))) {
+    const [first] = node.arguments;
+    return first ? unwrapFunction(first) : undefined;
+  }
+  return undefined;
+}
+
+function returnsJsx(fn: ts.Node): boolean {
+  let found = false;
+  const scan = (child: ts.Node): void => {
+    if (found) return;
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) {
+      found = true;
+      return;
+    }
+    if (ts.isCallExpression(child) && /(^|\.)createElement$/.test(getCalleeName(child.expression))) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, scan);
+  };
+  ts.forEachChild(fn, scan);
+  return found;
+}
+
+function isExported(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.ExportKeyword);
+}
+
+export function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return !!modifiers?.some((modifier) => modifier.kind === kind);
+}
+
+function getCalleeName(expression: ts.Expression): string {
+  if (ts.isIdentifier(expression)) return expression.text;
+  if (ts.isPropertyAccessExpression(expression)) {
+    const receiver = getCalleeName(expression.expression);
+    return receiver ? `${receiver}.${expression.name.text}` : expression.name.text;
+  }
+  return '';
+}
+
+function classifyCase(name: string): string {
+  if (/^[A-Z][A-Z0-9]*(_[A-Z0-9]+)+$/.test(name)) return 'UPPER_SNAKE_CASE';
+  if (name.includes('_')) return 'snake_case';
+  if (/^[A-Z]/.test(name)) return 'PascalCase';
+  return 'camelCase';
+}
@@ -0,0 +1,329 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getConfig } from './codebunny-config';
+import { resolveFilePath } from './inline-review';
+import { GateResult } from './merge-gate';
+import { ReviewFinding, StructuredReview } from './review-schema';
+import { ReviewSnapshot } from './review-history';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+type CheckRun = Awaited<ReturnType<Octokit['rest']['checks']['listForRef']>>['data']['check_runs'][number];
+
+export type CheckConclusion = 'success' | 'neutral' | 'failure' | 'action_required' | 'skipped';
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+}
+
+export const CHECK_NAME = 'CodeBunny Review';
+
+// GitHub accepts at most 50 annotations per request and 65535 characters of summary
+const ANNOTATIONS_PER_REQUEST = 50;
+const MAX_SUMMARY_CHARS = 65000;
+
+// A review without a recommendation uses gate.unknownConclusion instead
+const CONCLUSIONS: Record<Exclude<ReviewSnapshot['reviewState'], 'UNKNOWN'>, CheckConclusion> = {
+  MERGE: 'success',
+  MERGE_AFTER_CHANGES: 'neutral',
+  DONT_MERGE: 'failure',
+};
+
+const ANNOTATION_LEVELS: Record<ReviewFinding['priority'], CheckAnnotation['annotation_level']> = {
+  high: 'failure',
+  medium: 'warning',
+  low: 'notice',
+};
+
+/**
+ * Create an in-progress check run on the PR head so the review shows up in the checks list
+ * Returns undefined if GitHub refused, usually because the token lacks checks: write
+ */
+export async function startCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string
+): Promise<number | undefined> {
+  try {
+    const { data: check } = await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: CHECK_NAME,
+      head_sha: headSha,
+      status: 'in_progress',
+      started_at: new Date().toISOString(),
+      details_url: getRunUrl(owner, repo),
+      output: {
+        title: 'Review in progress',
+        summary: 'CodeBunny is analyzing the changes in this pull request.',
+      },
+    });
+    core.info(`Started check run ${check.id}`);
+    return check.id;
+  } catch (error) {
+    core.warning(`Failed to create check run (does the token have checks: write?): ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Complete the check run from the review and findings with a file and line become annotations
+ */
+export async function completeCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  checkRunId: number,
+  reviewState: ReviewSnapshot['reviewState'],
+  review: StructuredReview,
+  markdown: string,
+  changedFiles: string[],
+  gate?: GateResult
+): Promise<void> {
+  const conclusion = getConclusion(reviewState, gate);
+  const annotations = buildAnnotations(review.findings, changedFiles);
+  const output = {
+    title: formatCheckTitle(reviewState, review.findings.length),
+    summary:
+      markdown.length > MAX_SUMMARY_CHARS
+        ? `${markdown.slice(0, MAX_SUMMARY_CHARS)}\n\n_Summary truncated, see the PR comment for the full review._`
+        : markdown,
+  };
+
+  try {
+    await octokit.rest.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      status: 'completed',
+      conclusion,
+      completed_at: new Date().toISOString(),
+      details_url: getRunUrl(owner, repo),
+      output: { ...output, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) },
+    });
+
+    // Annotations are appended on each update, so the rest are sent in further requests
+    for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+      await octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        output: { ...output, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) },
+      });
+    }
+    core.info(`✅ Completed check run ${checkRunId}: ${conclusion} with ${annotations.length} annotations`);
+  } catch (error) {
+    core.warning(`Failed to complete check run ${checkRunId}: ${error}`);
+  }
+}
+
+/**
+ * Record a maintainer's gate override as a passing check on the PR head, so a required
+ * check stops blocking without waiting for another review
+ */
+export async function createOverrideCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  login: string
+): Promise<void> {
+  try {
+    await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: CHECK_NAME,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion: 'success',
+      completed_at: new Date().toISOString(),
+      output: {
+        title: 'Merge gate overridden',
+        summary: `@${login} bypassed the CodeBunny merge gate for this pull request.`,
+      },
+    });
+    core.info(`✅ Recorded the gate override by ${login} as a check run`);
+  } catch (error) {
+    core.warning(`Failed to create the override check run: ${error}`);
+  }
+}
+
+/**
+ * Complete a check on a head that is not reviewed, so a required check does not stay
+ * "Expected" on it
+ */
+export async function skipCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  reason: string
+): Promise<void> {
+  try {
+    await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: CHECK_NAME,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion: 'skipped',
+      completed_at: new Date().toISOString(),
+      output: { title: 'Review skipped', summary: reason },
+    });
+    core.info(`Recorded a skipped check run: ${reason}`);
+  } catch (error) {
+    core.warning(`Failed to create the skipped check run: ${error}`);
+  }
+}
+
+/**
+ * Copy the last completed check from the previously reviewed head to a new head with nothing
+ * new to review, so its verdict (including a failure) still applies
+ * Falls back to a skipped check when the previous head has none
+ */
+export async function carryForwardCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  previousSha: string,
+  headSha: string
+): Promise<void> {
+  let previous: CheckRun | undefined;
+  try {
+    const { data } = await octokit.rest.checks.listForRef({
+      owner,
+      repo,
+      ref: previousSha,
+      check_name: CHECK_NAME,
+      status: 'completed',
+      filter: 'latest',
+    });
+    previous = data.check_runs.find((check) => check.conclusion);
+  } catch (error) {
+    core.warning(`Failed to read the check run of ${previousSha}: ${error}`);
+  }
+
+  const reason = `No reviewable changes since ${previousSha.slice(0, 7)}.`;
+  if (!previous) {
+    await skipCheckRun(octokit, owner, repo, headSha, reason);
+    return;
+  }
+
+  try {
+    await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: CHECK_NAME,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion: previous.conclusion as CheckConclusion,
+      completed_at: new Date().toISOString(),
+      details_url: previous.details_url || undefined,
+      output: {
+        title: previous.output.title || 'Review carried forward',
+        summary: `${reason} The review of that commit still applies.\n\n${previous.output.summary || ''}`.slice(
+          0,
+          MAX_SUMMARY_CHARS
+        ),
+      },
+    });
+    core.info(`Carried the ${previous.conclusion} check of ${previousSha.slice(0, 7)} forward to ${headSha.slice(0, 7)}`);
+  } catch (error) {
+    core.warning(`Failed to carry the check run forward: ${error}`);
+  }
+}
+
+/**
+ * Close the check run when the review could not be produced, so it does not stay in progress
+ */
+export async function failCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  checkRunId: number,
+  message: string
+): Promise<void> {
+  try {
+    await octokit.rest.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      status: 'completed',
+      conclusion: 'failure',
+      completed_at: new Date().toISOString(),
+      output: { title: 'Review failed', summary: message },
+    });
+  } catch (error) {
+    core.warning(`Failed to close check run ${checkRunId}: ${error}`);
+  }
+}
+
+/**
+ * Map findings that point at a changed file and line to check annotations
+ */
+export function buildAnnotations(findings: ReviewFinding[], changedFiles: string[]): CheckAnnotation[] {
+  const annotations: CheckAnnotation[] = [];
+
+  for (const finding of findings) {
+    if (!finding.file || !finding.line) continue;
+
+    const path = resolveFilePath(finding.file, changedFiles);
+    if (!path) continue;
+
+    annotations.push({
+      path,
+      start_line: finding.line,
+      end_line: finding.endLine && finding.endLine > finding.line ? finding.endLine : finding.line,
+      annotation_level: ANNOTATION_LEVELS[finding.priority],
+      title: finding.title,
+      message: finding.fix ? `${finding.problem}\n\nFix: ${finding.fix}` : finding.problem,
+    });
+  }
+
+  return annotations;
+}
+
+/**
+ * A configured merge gate sets the conclusion; otherwise the recommendation does
+ * A review without a recommendation never passes on its own, so a failed model call
+ * cannot satisfy a required check
+ */
+function getConclusion(reviewState: ReviewSnapshot['reviewState'], gate?: GateResult): CheckConclusion {
+  if (gate && !gate.passed) {
+    return 'failure';
+  }
+  if (gate?.overriddenBy) {
+    return 'success';
+  }
+  if (reviewState === 'UNKNOWN') {
+    return getConfig().gate.unknownConclusion;
+  }
+  if (gate) {
+    return reviewState === 'MERGE' ? 'success' : 'neutral';
+  }
+  return CONCLUSIONS[reviewState];
+}
+
+/**
+ * Link to the workflow run, which action_required conclusions need as their details page
+ */
+function getRunUrl(owner: string, repo: string): string | undefined {
+  const runId = process.env.GITHUB_RUN_ID;
+  const server = process.env.GITHUB_SERVER_URL || 'https://github.com';
+  return runId ? `${server}/${owner}/${repo}/actions/runs/${runId}` : undefined;
+}
+
+function formatCheckTitle(reviewState: ReviewSnapshot['reviewState'], findingCount: number): string {
+  const verdict: Record<ReviewSnapshot['reviewState'], string> = {
+    MERGE: 'Ready to merge',
+    MERGE_AFTER_CHANGES: 'Merge after changes',
+    DONT_MERGE: "Don't merge",
+    UNKNOWN: 'No recommendation',
+  };
+  return `${verdict[reviewState]} · ${findingCount} finding${findingCount !== 1 ? 's' : ''}`;
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { filterIgnoredFiles, loadConfig } from './codebunny-config';
+import { getLocalDiffFiles, runGit } from './git-diff';
+import { createReviewEngine, getReviewEngineConfig } from './review-engine';
+import { generateEnhancedReview } from './review-generator';
+import { formatReview } from './review-output';
+import { renderReviewMarkdown } from './review-schema';
+import { loadRules } from './rules';
+import { ReviewContext } from './types';
+
+const USAGE = `Usage: codebunny review [options]
+
+Review the changes between two git refs locally, without GitHub.
+
+Options:
+  --base <ref>               Base ref to diff against (default: main)
+  --head <ref>               Ref to review (default: HEAD)
+  --focus <text>             Specific review request, like an @codebunny comment
+  --output <file>            Write the review to a file (.json for the structured review, otherwise markdown)
+  --engine <name>            Review engine: continue (default) or openai
+  --continue-config <path>   Continue assistant (defaults to CONTINUE_CONFIG)
+  --openai-base-url <url>    OpenAI-compatible API base URL
+  --openai-model <name>      Model for the openai engine
+  -h, --help                 Show this help
+
+API keys are read from CONTINUE_API_KEY or OPENAI_API_KEY.`;
+
+// @actions/core logs to stdout, so its output goes to stderr and stdout only carries the review,
+// keeping `codebunny review > review.md` clean
+const writeStdout = process.stdout.write.bind(process.stdout);
+process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+/**
+ * Local CLI entry point
+ * Returns the process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      base: { type: 'string', default: 'main' },
+      head: { type: 'string', default: 'HEAD' },
+      focus: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      engine: { type: 'string' },
+      'continue-config': { type: 'string' },
+      'openai-base-url': { type: 'string' },
+      'openai-model': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals[0] !== 'review') {
+    if (values.help) {
+      writeStdout(`${USAGE}\n`);
+    } else {
+      console.error(USAGE);
+    }
+    return values.help ? 0 : 1;
+  }
+
+  // Map flags onto the action inputs the review engine reads
+  setInput('REVIEW_ENGINE', values.engine);
+  setInput('CONTINUE_CONFIG', values['continue-config'] || process.env.CONTINUE_CONFIG);
+  setInput('CONTINUE_API_KEY', process.env.CONTINUE_API_KEY);
+  setInput('OPENAI_BASE_URL', values['openai-base-url']);
+  setInput('OPENAI_MODEL', values['openai-model']);
+
+  // Rules and codebase analysis are resolved relative to the repository root
+  const root = (await runGit(['rev-parse', '--show-toplevel'])).trim();
+  process.chdir(root);
+  const config = await loadConfig(root);
+
+  // The analysis cache lives in the git directory unless .codebunny.yml names one, so it never shows up as a change
+  if (!process.env.CODEBUNNY_CACHE_DIR && !config.cache.dir) {
+    const gitDir = (await runGit(['rev-parse', '--git-common-dir'])).trim();
+    process.env.CODEBUNNY_CACHE_DIR = path.join(path.resolve(root, gitDir), 'codebunny-cache');
+  }
+
+  const base = values.base!;
+  const head = values.head!;
+  const files = filterIgnoredFiles(await getLocalDiffFiles(base, head));
+
+  if (files.length === 0) {
+    console.error(`No changes between ${base} and ${head}`);
+    return 0;
+  }
+
+  const engine = createReviewEngine(getReviewEngineConfig(), process.env.GITHUB_TOKEN || '');
+  const rules = await loadRules(files.map((f) => f.filename));
+
+  const context: ReviewContext = {
+    pr: {
+      number: 0,
+      title: (await runGit(['log', '-1', '--format=%s', head])).trim(),
+      body: (await runGit(['log', '--format=- %s', `${base}..${head}`])).trim(),
+      author: (await runGit(['log', '-1', '--format=%an', head])).trim(),
+      files,
+    },
+    rules,
+    command: values.focus || config.review.focus,
+    repository: await getRepositoryName(root),
+  };
+
+  console.error(`Reviewing ${files.length} changed files (${base}...${head}) with ${engine.id}`);
+  const { review } = await generateEnhancedReview(context, engine);
+
+  const markdown = renderReviewMarkdown(review);
+
+  if (values.output) {
+    const format = values.output.endsWith('.json') ? 'json' : 'markdown';
+    await fs.writeFile(values.output, formatReview(review, markdown, format));
+    console.error(`Review written to ${values.output}`);
+  } else {
+    writeStdout(`${markdown}\n`);
+  }
+
+  return 0;
+}
+
+function setInput(name: string, value: string | undefined): void {
+  if (value) {
+    process.env[`INPUT_${name}`] = value;
+  }
+}
+
+/**
+ * Derive owner/repo from the origin remote, falling back to the directory name
+ */
+async function getRepositoryName(root: string): Promise<string> {
+  try {
+    const url = (await runGit(['config', '--get', 'remote.origin.url'])).trim();
+    const match = url.match(/[:/]([^/:]+\/[^/]+?)(?:\.git)?$/);
+    if (match) return match[1];
+  } catch {
+    // No origin remote configured
+  }
+  return path.basename(root);
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(`codebunny: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  });
@@ -2,6 +2,23 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
 import * as core from '@actions/core';
+import { version as typescriptVersion } from 'typescript';
+import { AnalysisCache, getCached, hashContent, loadAnalysisCache, saveAnalysisCache, setCached } from './analysis-cache';
+import { ScriptAnalysis, analyzeScript, isScriptFile } from './ast-patterns';
+import { getConfig, getWorkspaceRoot } from './codebunny-config';
+import { EcosystemInfo, LANGUAGES, detectEcosystems, getLanguageForFile, getSourceExtensions } from './ecosystems';
+import { ModuleImpact, analyzeImpact } from './import-graph';
+import { Workspace, detectWorkspace, findOwningPackage, groupByPackage } from './workspaces';
+
+// Bump when the per-file analysis output changes; cached results from other versions are discarded
+const ANALYZER_VERSION = 1;
+const CACHE_VERSION = `${ANALYZER_VERSION}-typescript-${typescriptVersion}`;
+
+// The repository-wide test file scan is reused for a day while the top-level layout is unchanged
+const STRUCTURE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Nested in monorepo packages too, e.g. packages/ui/node_modules
+const VENDORED_DIRS = ['node_modules', 'vendor', 'target', '.venv', 'venv', 'build', 'dist'].map((dir) => `**/${dir}/**`);
 
 export interface CodebasePattern {
   type: 'import' | 'component' | 'function' | 'type' | 'constant';
@@ -11,73 +28,143 @@ export interface CodebasePattern {
   fileTypes: string[];
 }
 
+type NamingConventions = { files: string[]; functions: string[]; types: string[] };
+type DependencyInfo = { frameworks: string[]; libraries: string[]; testRunners: string[]; languages: string[] };
+
+/**
+ * What one file contributes to the project context, cached by content hash
+ */
+interface FileAnalysis {
+  patterns: CodebasePattern[];
+  naming: NamingConventions;
+  architecture: ProjectContext['architecture'];
+  exports: ProjectContext['exports'];
+}
+
+/**
+ * A monorepo package that owns changed files, with its own stack and naming
+ */
+export interface PackageContext {
+  name: string;
+  dir: string;
+  files: string[];
+  dependencies: DependencyInfo;
+  naming: NamingConventions;
+}
+
 export interface ProjectContext {
   patterns: CodebasePattern[];
   conventions: {
-    naming: { files: string[]; functions: string[]; types: string[] };
+    naming: NamingConventions;
     structure: { directories: string[]; testPatterns: string[] };
-    dependencies: { frameworks: string[]; libraries: string[] };
+    dependencies: DependencyInfo;
   };
   architecture: {
     componentPatterns: string[];
     dataFlowPatterns: string[];
     errorHandlingPatterns: string[];
   };
+  /** Exported TS/JS symbols in the analyzed files, so reviews can point at existing helpers */
+  exports: { functions: string[]; components: string[]; hooks: string[] };
+  /** Modules outside the PR that import the changed files */
+  impact: ModuleImpact[];
+  /** Set in a monorepo: the workspace tools and the packages the PR touches */
+  workspace?: { tools: string[]; packages: PackageContext[] };
 }
 
 /**
  * Analyze codebase to understand patterns and conventions
+ * Paths are relative to root, the checked-out repository
  */
-export async function analyzeCodebasePatterns(changedFiles: string[]): Promise<ProjectContext> {
+export async function analyzeCodebasePatterns(
+  changedFiles: string[],
+  root: string = getWorkspaceRoot()
+): Promise<ProjectContext> {
   core.info('Analyzing codebase patterns for enhanced context...');
 
   const patterns: CodebasePattern[] = [];
   const conventions = {
     naming: { files: [] as string[], functions: [] as string[], types: [] as string[] },
     structure: { directories: [] as string[], testPatterns: [] as string[] },
-    dependencies: { frameworks: [] as string[], libraries: [] as string[] },
+    dependencies: {
+      frameworks: [] as string[],
+      libraries: [] as string[],
+      testRunners: [] as string[],
+      languages: [] as string[],
+    },
   };
   const architecture = {
     componentPatterns: [] as string[],
     dataFlowPatterns: [] as string[],
     errorHandlingPatterns: [] as string[],
   };
+  const exports = { functions: [] as string[], components: [] as string[], hooks: [] as string[] };
 
   try {
-    // Analyze related files to understand patterns
-    const relatedFiles = await findRelatedFiles(changedFiles);
+    const workspace = await detectWorkspace(root);
+    const packageNaming = new Map<string, NamingConventions>();
+
+    // Analyze related files to understand patterns, reusing results for files that haven't changed
+    const relatedFiles = await findRelatedFiles(changedFiles, root);
+    const cache = await loadAnalysisCache(CACHE_VERSION);
 
     // Extract patterns from existing code
-    for (const file of relatedFiles.slice(0, 50)) {
+    for (const file of relatedFiles.slice(0, getConfig().limits.analysisFiles)) {
       // Limit to prevent timeout
       try {
-        const content = await fs.readFile(file, 'utf-8');
-
-        // Analyze imports to understand dependencies
-        const imports = extractImportPatterns(content, file);
-        patterns.push(...imports);
-
-        // Analyze component patterns for React files
-        if (file.match(/\.(tsx?|jsx?)$/)) {
-          const componentPatterns = extractComponentPatterns(content, file);
-          architecture.componentPatterns.push(...componentPatterns);
+        const content = await fs.readFile(path.join(root, file), 'utf-8');
+        const hash = hashContent(content);
+        const analysis =
+          getCached<FileAnalysis>(cache, file, hash) || setCached(cache, file, hash, analyzeFile(content, file));
+
+        patterns.push(...analysis.patterns);
+        architecture.componentPatterns.push(...analysis.architecture.componentPatterns);
+        architecture.dataFlowPatterns.push(...analysis.architecture.dataFlowPatterns);
+        architecture.errorHandlingPatterns.push(...analysis.architecture.errorHandlingPatterns);
+        exports.functions.push(...analysis.exports.functions);
+        exports.components.push(...analysis.exports.components);
+        exports.hooks.push(...analysis.exports.hooks);
+
+        // In a monorepo each package keeps its own conventions as well
+        mergeNaming(conventions.naming, analysis.naming);
+        const owner = workspace && findOwningPackage(file, workspace.packages);
+        if (owner) {
+          const ownerNaming = packageNaming.get(owner.dir) || { files: [], functions: [], types: [] };
+          packageNaming.set(owner.dir, mergeNaming(ownerNaming, analysis.naming));
         }
-
-        // Analyze naming conventions
-        const namingPatterns = extractNamingPatterns(content, file);
-        conventions.naming.files.push(...namingPatterns.files);
-        conventions.naming.functions.push(...namingPatterns.functions);
-        conventions.naming.types.push(...namingPatterns.types);
       } catch (error) {
         core.debug(`Failed to analyze ${file}: ${error}`);
       }
     }
 
     // Analyze project structure
-    conventions.structure = await analyzeProjectStructure();
+    conventions.structure = await analyzeProjectStructure(root, workspace, cache);
+
+    // Analyze package manifests for framework/library patterns, per package in a monorepo
+    const changedPackages = workspace
+      ? groupByPackage(changedFiles, (file) => file, workspace.packages).filter((group) => group.pkg)
+      : [];
+    conventions.dependencies = await analyzeDependencies(root, changedFiles, [
+      '.',
+      ...changedPackages.map((group) => group.pkg!.dir),
+    ]);
+
+    const packages: PackageContext[] = [];
+    for (const { pkg, items } of changedPackages) {
+      packages.push({
+        name: pkg!.name,
+        dir: pkg!.dir,
+        files: items,
+        // The root manifest usually holds shared tooling such as test runners
+        dependencies: await analyzeDependencies(root, items, [pkg!.dir, '.']),
+        naming: packageNaming.get(pkg!.dir) || { files: [], functions: [], types: [] },
+      });
+    }
 
-    // Analyze package.json for framework/library patterns
-    conventions.dependencies = await analyzeDependencies();
+    // Find who imports the changed files, so breaking changes to callers are visible
+    const impact = await analyzeImpact(changedFiles, root);
+
+    await saveAnalysisCache(cache);
 
     // Remove duplicates and get most common patterns
     const uniquePatterns = deduplicatePatterns(patterns);
@@ -88,6 +175,13 @@ export async function analyzeCodebasePatterns(changedFiles: string[]): Promise<P
       patterns: uniquePatterns,
       conventions,
       architecture,
+      exports: {
+        functions: Array.from(new Set(exports.functions)),
+        components: Array.from(new Set(exports.components)),
+        hooks: Array.from(new Set(exports.hooks)),
+      },
+      impact,
+      workspace: workspace ? { tools: workspace.tools, packages } : undefined,
     };
   } catch (error) {
     core.warning(`Failed to analyze codebase patterns: ${error}`);
@@ -96,21 +190,64 @@ export async function analyzeCodebasePatterns(changedFiles: string[]): Promise<P
       conventions: {
         naming: { files: [] as string[], functions: [] as string[], types: [] as string[] },
         structure: { directories: [] as string[], testPatterns: [] as string[] },
-        dependencies: { frameworks: [] as string[], libraries: [] as string[] },
+        dependencies: {
+          frameworks: [] as string[],
+          libraries: [] as string[],
+          testRunners: [] as string[],
+          languages: [] as string[],
+        },
       },
       architecture: {
         componentPatterns: [] as string[],
         dataFlowPatterns: [] as string[],
         errorHandlingPatterns: [] as string[],
       },
+      exports: { functions: [] as string[], components: [] as string[], hooks: [] as string[] },
+      impact: [] as ModuleImpact[],
+    };
+  }
+}
+
+/**
+ * Analyze one file's imports, declarations, naming and architecture patterns
+ * TS/JS is parsed with the TypeScript compiler, other languages use regex profiles
+ */
+function analyzeFile(content: string, file: string): FileAnalysis {
+  const analysis: FileAnalysis = {
+    patterns: [],
+    naming: { files: extractFileNaming(file), functions: [], types: [] },
+    architecture: { componentPatterns: [], dataFlowPatterns: [], errorHandlingPatterns: [] },
+    exports: { functions: [], components: [], hooks: [] },
+  };
+
+  if (isScriptFile(file)) {
+    const script = analyzeScript(content, file);
+    analysis.patterns.push(...toCodebasePatterns(script, file));
+    analysis.naming.functions.push(...script.naming.functions);
+    analysis.naming.types.push(...script.naming.types);
+    analysis.architecture = {
+      componentPatterns: script.componentPatterns,
+      dataFlowPatterns: script.dataFlowPatterns,
+      errorHandlingPatterns: script.errorHandlingPatterns,
     };
+    analysis.exports = script.exports;
+  } else {
+    // Analyze imports to understand dependencies
+    analysis.patterns.push(...extractImportPatterns(content, file));
+
+    // Analyze naming conventions
+    const namingPatterns = extractNamingPatterns(content, file);
+    analysis.naming.functions.push(...namingPatterns.functions);
+    analysis.naming.types.push(...namingPatterns.types);
   }
+
+  return analysis;
 }
 
 /**
  * Find files related to the changed files for pattern analysis
  */
-async function findRelatedFiles(changedFiles: string[]): Promise<string[]> {
+async function findRelatedFiles(changedFiles: string[], root: string): Promise<string[]> {
   const relatedFiles = new Set<string>();
 
   for (const file of changedFiles) {
@@ -120,8 +257,9 @@ async function findRelatedFiles(changedFiles: string[]): Promise<string[]> {
     // Find files in the same directory
     const dir = path.dirname(file);
     try {
-      const siblingFiles = await glob(`${dir}/*.{ts,tsx,js,jsx}`, {
-        ignore: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
+      const siblingFiles = await glob(`${dir}/*.{${getSourceExtensions().join(',')}}`, {
+        cwd: root,
+        ignore: [...VENDORED_DIRS, '**/*.test.*', '**/*.spec.*', '**/test_*.py', '**/*_test.*', '**/*_spec.rb'],
       });
       for (const f of siblingFiles) {
         relatedFiles.add(f);
@@ -130,11 +268,15 @@ async function findRelatedFiles(changedFiles: string[]): Promise<string[]> {
       core.debug(`Failed to find sibling files for ${dir}: ${error}`);
     }
 
-    // Find test files
+    // Find test files, named the way the file's language names them
+    const language = getLanguageForFile(file);
+    if (!language) continue;
+
     const baseName = path.basename(file, path.extname(file));
     try {
-      const testFiles = await glob(`**/${baseName}.{test,spec}.{ts,tsx,js,jsx}`, {
-        ignore: ['node_modules/**'],
+      const testFiles = await glob(language.testFiles(baseName), {
+        cwd: root,
+        ignore: VENDORED_DIRS,
       });
       for (const f of testFiles) {
         relatedFiles.add(f);
@@ -144,8 +286,6 @@ async function findRelatedFiles(changedFiles: string[]): Promise<string[]> {
     }
   }
 
-
-
   return Array.from(relatedFiles);
 }
 
@@ -154,9 +294,10 @@ async function findRelatedFiles(changedFiles: string[]): Promise<string[]> {
  */
 function extractImportPatterns(content: string, filepath: string): CodebasePattern[] {
   const patterns: CodebasePattern[] = [];
+  const language = getLanguageForFile(filepath);
+  if (!language) return patterns;
 
-  // Updated regex to handle type-only imports (import type { ... } from ...)
-  const importRegex = /import\s+(?:type\s+)?(?:\{[^}]+\}|\*\s+as\s+\w+|\w+)?\s*(?:,\s*(?:type\s+)?\{[^}]+\})?\s*from\s+['"`]([^'"`]+)['"`]/g;
+  const importRegex = new RegExp(language.importPattern);
   let match;
   const imports = new Map<string, number>();
 
@@ -179,32 +320,42 @@ function extractImportPatterns(content: string, filepath: string): CodebasePatte
 }
 
 /**
- * Extract React component patterns
+ * Turn a parsed TS/JS file's imports and declaration styles into codebase patterns
  */
-function extractComponentPatterns(content: string, filepath: string): string[] {
-  const patterns: string[] = [];
+function toCodebasePatterns(script: ScriptAnalysis, filepath: string): CodebasePattern[] {
+  const counts = new Map<string, { type: CodebasePattern['type']; pattern: string; frequency: number }>();
+  const entries = [
+    ...script.imports.map((pattern) => ({ type: 'import' as const, pattern })),
+    ...script.styles,
+  ];
+
+  for (const { type, pattern } of entries) {
+    const key = `${type}:${pattern}`;
+    const existing = counts.get(key);
+    if (existing) {
+      existing.frequency++;
+    } else {
+      counts.set(key, { type, pattern, frequency: 1 });
+    }
+  }
 
-  // Check for common React patterns
-  if (content.includes('useState')) patterns.push('React Hooks (useState)');
-  if (content.includes('useEffect')) patterns.push('React Hooks (useEffect)');
-  if (content.includes('useCallback')) patterns.push('React Hooks (useCallback)');
-  if (content.includes('useMemo')) patterns.push('React Hooks (useMemo)');
-  if (content.includes('forwardRef')) patterns.push('React forwardRef');
-  if (content.includes('memo(')) patterns.push('React.memo optimization');
-  if (content.includes('createContext')) patterns.push('React Context');
-  if (content.includes('Provider')) patterns.push('Context Provider pattern');
-
-  // Check for TypeScript patterns
-  if (content.includes('interface ')) patterns.push('TypeScript interfaces');
-  if (content.includes('type ')) patterns.push('TypeScript type aliases');
-  if (content.includes('enum ')) patterns.push('TypeScript enums');
-  if (content.includes('as const')) patterns.push('TypeScript const assertions');
-
-  // Check for error handling patterns
-  if (content.includes('try {') || content.includes('catch (')) patterns.push('Try-catch error handling');
-  if (content.includes('throw new Error')) patterns.push('Error throwing');
-  if (content.includes('ErrorBoundary')) patterns.push('React Error Boundaries');
+  return Array.from(counts.values()).map((entry) => ({
+    ...entry,
+    examples: [filepath],
+    fileTypes: [path.extname(filepath)],
+  }));
+}
 
+/**
+ * Classify a file's naming convention from its base name
+ */
+function extractFileNaming(filepath: string): string[] {
+  const fileName = path.basename(filepath, path.extname(filepath));
+  const patterns: string[] = [];
+  if (fileName.includes('-')) patterns.push('kebab-case');
+  if (fileName.includes('_')) patterns.push('snake_case');
+  if (/^[a-z][a-zA-Z0-9]*$/.test(fileName)) patterns.push('camelCase');
+  if (/^[A-Z][a-zA-Z0-9]*$/.test(fileName)) patterns.push('PascalCase');
   return patterns;
 }
 
@@ -214,27 +365,24 @@ function extractComponentPatterns(content: string, filepath: string): string[] {
 function extractNamingPatterns(
   content: string,
   filepath: string
-): { files: string[]; functions: string[]; types: string[]; } {
-  const patterns = { files: [] as string[], functions: [] as string[], types: [] as string[] };
+): { functions: string[]; types: string[] } {
+  const patterns = { functions: [] as string[], types: [] as string[] };
 
-  // File naming pattern
-  const fileName = path.basename(filepath, path.extname(filepath));
-  if (fileName.includes('-')) patterns.files.push('kebab-case');
-  if (fileName.includes('_')) patterns.files.push('snake_case');
-  if (/^[a-z][a-zA-Z0-9]*$/.test(fileName)) patterns.files.push('camelCase');
-  if (/^[A-Z][a-zA-Z0-9]*$/.test(fileName)) patterns.files.push('PascalCase');
+  const language = getLanguageForFile(filepath);
+  if (!language) return patterns;
 
   // Function naming patterns
-  const functionRegex = /(?:function\s+|const\s+|let\s+|var\s+)([a-zA-Z_$][a-zA-Z0-9_$]*)/g;
+  const functionRegex = new RegExp(language.functionPattern);
   let match;
   while ((match = functionRegex.exec(content)) !== null) {
     const funcName = match[1];
     if (/^[a-z][a-zA-Z0-9]*$/.test(funcName)) patterns.functions.push('camelCase');
-    if (funcName.includes('_')) patterns.functions.push('snake_case');
+    if (/^[A-Z][a-zA-Z0-9]*$/.test(funcName)) patterns.functions.push('PascalCase');
+    if (/^_?[a-z0-9]+(_[a-z0-9]+)+[?!]?$/.test(funcName)) patterns.functions.push('snake_case');
   }
 
   // Type naming patterns
-  const typeRegex = /(?:interface\s+|type\s+|enum\s+)([a-zA-Z_$][a-zA-Z0-9_$]*)/g;
+  const typeRegex = new RegExp(language.typePattern);
   while ((match = typeRegex.exec(content)) !== null) {
     const typeName = match[1];
     if (/^[A-Z][a-zA-Z0-9]*$/.test(typeName)) patterns.types.push('PascalCase');
@@ -247,27 +395,55 @@ function extractNamingPatterns(
 /**
  * Analyze project directory structure
  */
-async function analyzeProjectStructure(): Promise<{
+async function analyzeProjectStructure(
+  root: string,
+  workspace: Workspace | null,
+  cache: AnalysisCache
+): Promise<{
   directories: string[];
   testPatterns: string[];
 }> {
   try {
-    const directories = await glob('*/', { ignore: ['node_modules/', '.git/', 'dist/', 'build/'] });
+    const directories = await glob('*/', {
+      cwd: root,
+      ignore: ['node_modules/', '.git/', 'dist/', 'build/', 'target/', 'vendor/', '.venv/', 'venv/'],
+    });
 
-    const testFiles = await glob('**/*.{test,spec}.{ts,tsx,js,jsx}', {
-      ignore: ['node_modules/**'],
+    // Workspace packages are listed as well, since the top level only shows packages/ or apps/
+    const allDirectories = [
+      ...directories.map((d) => d.replace('/', '')),
+      ...(workspace ? workspace.packages.map((pkg) => pkg.dir) : []),
+    ];
+
+    const layoutHash = hashContent(JSON.stringify([...allDirectories].sort()));
+    const cached = getCached<string[]>(cache, 'structure:testPatterns', layoutHash, STRUCTURE_MAX_AGE_MS);
+    if (cached) {
+      return { directories: allDirectories, testPatterns: cached };
+    }
+
+    const testFiles = await glob(LANGUAGES.flatMap((language) => language.testFiles('*')), {
+      cwd: root,
+      ignore: VENDORED_DIRS,
     });
 
     const testPatterns: string[] = [];
     testFiles.forEach((file) => {
+      const name = path.basename(file);
       if (file.includes('__tests__')) testPatterns.push('__tests__ directory');
-      if (file.includes('.test.')) testPatterns.push('.test.* files');
-      if (file.includes('.spec.')) testPatterns.push('.spec.* files');
+      if (name.includes('.test.')) testPatterns.push('.test.* files');
+      if (name.includes('.spec.')) testPatterns.push('.spec.* files');
+      if (/^test_.*\.py$/.test(name)) testPatterns.push('test_*.py files');
+      if (/_test\.py$/.test(name)) testPatterns.push('*_test.py files');
+      if (/_test\.go$/.test(name)) testPatterns.push('*_test.go files');
+      if (/\.rs$/.test(name)) testPatterns.push('tests/ directory (Rust integration tests)');
+      if (/Tests?\.(java|kt)$/.test(name)) testPatterns.push('*Test classes');
+      if (/_spec\.rb$/.test(name)) testPatterns.push('*_spec.rb files');
+      if (/_test\.rb$/.test(name)) testPatterns.push('*_test.rb files');
     });
 
     return {
-      directories: directories.map((d) => d.replace('/', '')),
-      testPatterns: Array.from(new Set(testPatterns)),
+      directories: allDirectories,
+      testPatterns: setCached(cache, 'structure:testPatterns', layoutHash, Array.from(new Set(testPatterns))),
     };
   } catch (error) {
     core.debug(`Failed to analyze project structure: ${error}`);
@@ -276,50 +452,50 @@ async function analyzeProjectStructure(): Promise<{
 }
 
 /**
- * Analyze package.json for framework and library patterns
+ * Detect the project's ecosystems from their manifests (package.json, pyproject.toml, go.mod,
+ * Cargo.toml, pom.xml, build.gradle, Gemfile) in each directory under root, and its languages, most-changed first
  */
-async function analyzeDependencies(): Promise<{ frameworks: string[]; libraries: string[] }> {
-  try {
-    const packageJson = await fs.readFile('package.json', 'utf-8');
-    const pkg = JSON.parse(packageJson);
+async function analyzeDependencies(
+  root: string,
+  changedFiles: string[],
+  dirs: string[] = ['.']
+): Promise<DependencyInfo> {
+  const ecosystems: EcosystemInfo[] = [];
+  for (const dir of dirs) {
+    ecosystems.push(...(await detectEcosystems(path.join(root, dir))));
+  }
+  const unique = (values: string[]) => Array.from(new Set(values));
 
-    const allDeps = {
-      ...pkg.dependencies,
-      ...pkg.devDependencies,
-    };
+  // Languages of the changed files come first, then any declared by a manifest
+  const changedLanguages = new Map<string, number>();
+  for (const file of changedFiles) {
+    const language = getLanguageForFile(file);
+    if (language) {
+      changedLanguages.set(language.name, (changedLanguages.get(language.name) || 0) + 1);
+    }
+  }
+  const byChanges = Array.from(changedLanguages.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
 
-    const frameworks: string[] = [];
-    const libraries: string[] = [];
-
-    // Identify frameworks
-    if (allDeps.react) frameworks.push('React');
-    if (allDeps.vue) frameworks.push('Vue');
-    if (allDeps.angular) frameworks.push('Angular');
-    if (allDeps.next) frameworks.push('Next.js');
-    if (allDeps.nuxt) frameworks.push('Nuxt.js');
-    if (allDeps.svelte) frameworks.push('Svelte');
-
-    // Identify common libraries
-    if (allDeps.typescript) libraries.push('TypeScript');
-    if (allDeps.tailwindcss) libraries.push('Tailwind CSS');
-    if (allDeps['styled-components']) libraries.push('Styled Components');
-    if (allDeps.emotion) libraries.push('Emotion');
-    if (allDeps.zustand) libraries.push('Zustand');
-    if (allDeps.redux) libraries.push('Redux');
-    if (allDeps.axios) libraries.push('Axios');
-    if (allDeps.vitest) libraries.push('Vitest');
-    if (allDeps.jest) libraries.push('Jest');
-    if (allDeps.playwright) libraries.push('Playwright');
-    if (allDeps.storybook) libraries.push('Storybook');
-
-    return { frameworks, libraries };
-  } catch (error) {
-    core.debug(`Failed to analyze dependencies: ${error}`);
-    return { frameworks: [] as string[], libraries: [] as string[] };
+  if (ecosystems.length > 0) {
+    core.debug(`Detected ecosystems in ${dirs.join(', ')}: ${ecosystems.map((e) => e.ecosystem).join(', ')}`);
   }
-}
 
+  return {
+    frameworks: unique(ecosystems.flatMap((e) => e.frameworks)),
+    libraries: unique(ecosystems.flatMap((e) => e.libraries)),
+    testRunners: unique(ecosystems.flatMap((e) => e.testRunners)),
+    languages: unique([...byChanges, ...ecosystems.flatMap((e) => e.languages)]),
+  };
+}
 
+function mergeNaming(target: NamingConventions, source: NamingConventions): NamingConventions {
+  target.files.push(...source.files);
+  target.functions.push(...source.functions);
+  target.types.push(...source.types);
+  return target;
+}
 
 /**
  * Remove duplicate patterns and sort by frequency
@@ -335,7 +511,8 @@ function deduplicatePatterns(patterns: CodebasePattern[]): CodebasePattern[] {
       existing.examples.push(...pattern.examples);
       existing.fileTypes.push(...pattern.fileTypes);
     } else {
-      patternMap.set(key, { ...pattern });
+      // Copy the arrays too: patterns may be shared with the analysis cache
+      patternMap.set(key, { ...pattern, examples: [...pattern.examples], fileTypes: [...pattern.fileTypes] });
     }
   });
 
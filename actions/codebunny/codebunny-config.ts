@@ -0,0 +1,322 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { matchesPattern } from './rules';
+
+export const OUTPUT_SINKS = ['comment', 'check', 'step-summary', 'markdown', 'json', 'stdout'] as const;
+export type OutputSink = (typeof OUTPUT_SINKS)[number];
+
+export const UNKNOWN_CONCLUSIONS = ['failure', 'action_required', 'neutral'] as const;
+export type UnknownConclusion = (typeof UNKNOWN_CONCLUSIONS)[number];
+
+export const PERMISSION_LEVELS = ['read', 'triage', 'write', 'maintain', 'admin'] as const;
+export type PermissionLevel = (typeof PERMISSION_LEVELS)[number];
+
+export interface CodebunnyConfig {
+  review: {
+    focus?: string;
+    ignore: string[];
+    incremental?: boolean;
+  };
+  triggers: {
+    pullRequest: boolean;
+    comments: boolean;
+    replies: boolean;
+    describeOnOpen: boolean;
+    skipDrafts: boolean;
+    ignoreAuthors: string[];
+    blockedUsers: string[];
+    minPermission: PermissionLevel;
+    userCooldownMinutes: number;
+    prCooldownMinutes: number;
+  };
+  output: {
+    modes?: OutputSink[];
+    dryRun?: boolean;
+    file?: string;
+    stickyWindowMinutes: number;
+  };
+  gate: {
+    failOnDontMerge: boolean;
+    maxHigh?: number;
+    maxMedium?: number;
+    maxLow?: number;
+    failJob: boolean;
+    overrideLabel: string;
+    overridePermission: PermissionLevel;
+    unknownConclusion: UnknownConclusion;
+  };
+  limits: {
+    timeoutSeconds: number;
+    batchCharBudget: number;
+    maxBatches: number;
+    maxFilePatchChars: number;
+    analysisFiles: number;
+    graphFiles: number;
+    impactImporters: number;
+    metricsHistory: number;
+    maxListItems?: number;
+  };
+  cache: {
+    enabled: boolean;
+    dir?: string;
+  };
+}
+
+type FieldSpec =
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'integer'; min: number }
+  | { type: 'string[]' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'enum[]'; values: readonly string[] };
+
+export const CONFIG_FILES = ['.codebunny.yml', '.codebunny.yaml'];
+
+export const DEFAULT_CONFIG: CodebunnyConfig = {
+  review: {
+    ignore: [],
+  },
+  triggers: {
+    pullRequest: true,
+    comments: true,
+    replies: true,
+    describeOnOpen: false,
+    skipDrafts: false,
+    ignoreAuthors: [],
+    blockedUsers: [],
+    minPermission: 'write',
+    userCooldownMinutes: 5,
+    prCooldownMinutes: 2,
+  },
+  output: {
+    stickyWindowMinutes: 60,
+  },
+  gate: {
+    failOnDontMerge: false,
+    failJob: true,
+    overrideLabel: 'codebunny-override',
+    overridePermission: 'maintain',
+    unknownConclusion: 'failure',
+  },
+  limits: {
+    timeoutSeconds: 420,
+    batchCharBudget: 14000,
+    maxBatches: 6,
+    maxFilePatchChars: 60000,
+    analysisFiles: 50,
+    graphFiles: 3000,
+    impactImporters: 10,
+    metricsHistory: 100,
+  },
+  cache: {
+    enabled: true,
+  },
+};
+
+const CONFIG_SCHEMA: Record<keyof CodebunnyConfig, Record<string, FieldSpec>> = {
+  review: {
+    focus: { type: 'string' },
+    ignore: { type: 'string[]' },
+    incremental: { type: 'boolean' },
+  },
+  triggers: {
+    pullRequest: { type: 'boolean' },
+    comments: { type: 'boolean' },
+    replies: { type: 'boolean' },
+    describeOnOpen: { type: 'boolean' },
+    skipDrafts: { type: 'boolean' },
+    ignoreAuthors: { type: 'string[]' },
+    blockedUsers: { type: 'string[]' },
+    minPermission: { type: 'enum', values: PERMISSION_LEVELS },
+    userCooldownMinutes: { type: 'integer', min: 0 },
+    prCooldownMinutes: { type: 'integer', min: 0 },
+  },
+  output: {
+    modes: { type: 'enum[]', values: OUTPUT_SINKS },
+    dryRun: { type: 'boolean' },
+    file: { type: 'string' },
+    stickyWindowMinutes: { type: 'integer', min: 0 },
+  },
+  gate: {
+    failOnDontMerge: { type: 'boolean' },
+    maxHigh: { type: 'integer', min: 0 },
+    maxMedium: { type: 'integer', min: 0 },
+    maxLow: { type: 'integer', min: 0 },
+    failJob: { type: 'boolean' },
+    overrideLabel: { type: 'string' },
+    overridePermission: { type: 'enum', values: PERMISSION_LEVELS },
+    unknownConclusion: { type: 'enum', values: UNKNOWN_CONCLUSIONS },
+  },
+  limits: {
+    timeoutSeconds: { type: 'integer', min: 1 },
+    batchCharBudget: { type: 'integer', min: 1000 },
+    maxBatches: { type: 'integer', min: 1 },
+    maxFilePatchChars: { type: 'integer', min: 1000 },
+    analysisFiles: { type: 'integer', min: 0 },
+    graphFiles: { type: 'integer', min: 0 },
+    impactImporters: { type: 'integer', min: 1 },
+    metricsHistory: { type: 'integer', min: 1 },
+    maxListItems: { type: 'integer', min: 1 },
+  },
+  cache: {
+    enabled: { type: 'boolean' },
+    dir: { type: 'string' },
+  },
+};
+
+let activeConfig: CodebunnyConfig = DEFAULT_CONFIG;
+
+/**
+ * The checked-out repository: GITHUB_WORKSPACE in the action, whose steps run in the action's
+ * own directory, and the working directory for the local CLI
+ */
+export function getWorkspaceRoot(): string {
+  return process.env.GITHUB_WORKSPACE || process.cwd();
+}
+
+/**
+ * The configuration loaded by loadConfig, or the defaults if no config file was loaded
+ */
+export function getConfig(): CodebunnyConfig {
+  return activeConfig;
+}
+
+/**
+ * Load .codebunny.yml from the repository root, validate it and make it the active configuration
+ * Throws with every offending key listed when the file is invalid
+ */
+export async function loadConfig(root: string = getWorkspaceRoot()): Promise<CodebunnyConfig> {
+  for (const name of CONFIG_FILES) {
+    const filePath = path.join(root, name);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = yaml.load(content);
+    } catch (error) {
+      throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    activeConfig = parseConfig(data, name);
+    core.info(`Loaded configuration from ${name}`);
+    return activeConfig;
+  }
+
+  activeConfig = DEFAULT_CONFIG;
+  return activeConfig;
+}
+
+/**
+ * Validate raw config data and merge it over the defaults
+ */
+export function parseConfig(data: unknown, name: string = CONFIG_FILES[0]): CodebunnyConfig {
+  if (data === undefined || data === null) {
+    return DEFAULT_CONFIG;
+  }
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid ${name}: the file must contain a mapping of sections`);
+  }
+
+  const errors: string[] = [];
+  const config: Record<string, Record<string, unknown>> = {};
+
+  for (const [section, values] of Object.entries(data)) {
+    const fields = CONFIG_SCHEMA[section as keyof CodebunnyConfig];
+    if (!fields) {
+      errors.push(`${section}: unknown section (expected ${Object.keys(CONFIG_SCHEMA).join(', ')})`);
+      continue;
+    }
+    if (values === null) {
+      continue;
+    }
+    if (!isObject(values)) {
+      errors.push(`${section}: must be a mapping`);
+      continue;
+    }
+
+    config[section] = { ...DEFAULT_CONFIG[section as keyof CodebunnyConfig] };
+
+    for (const [key, value] of Object.entries(values)) {
+      const spec = fields[key];
+      if (!spec) {
+        errors.push(`${section}.${key}: unknown key (expected ${Object.keys(fields).join(', ')})`);
+        continue;
+      }
+
+      const result = validateField(value, spec);
+      if (result.error) {
+        errors.push(`${section}.${key}: ${result.error} (got ${JSON.stringify(value)})`);
+      } else {
+        config[section][key] = result.value;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${name}:\n${errors.map((e) => `- ${e}`).join('\n')}`);
+  }
+
+  return { ...DEFAULT_CONFIG, ...config } as CodebunnyConfig;
+}
+
+/**
+ * Drop changed files that match the configured review.ignore globs
+ */
+export function filterIgnoredFiles<T extends { filename: string }>(files: T[]): T[] {
+  const { ignore } = getConfig().review;
+  if (ignore.length === 0) {
+    return files;
+  }
+
+  const kept = files.filter(
+    (file) => !ignore.some((pattern) => matchesPattern(file.filename, pattern))
+  );
+  if (kept.length < files.length) {
+    core.info(`Ignoring ${files.length - kept.length} files matched by review.ignore`);
+  }
+  return kept;
+}
+
+function validateField(value: unknown, spec: FieldSpec): { value?: unknown; error?: string } {
+  switch (spec.type) {
+    case 'string':
+      return typeof value === 'string' && value.trim()
+        ? { value: value.trim() }
+        : { error: 'must be a non-empty string' };
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : { error: 'must be true or false' };
+    case 'integer':
+      return Number.isInteger(value) && (value as number) >= spec.min
+        ? { value }
+        : { error: `must be an integer >= ${spec.min}` };
+    case 'string[]': {
+      const items = typeof value === 'string' ? [value] : value;
+      return Array.isArray(items) && items.every((item) => typeof item === 'string')
+        ? { value: items.map((item) => item.trim()).filter(Boolean) }
+        : { error: 'must be a string or a list of strings' };
+    }
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? { value }
+        : { error: `must be one of ${spec.values.join(', ')}` };
+    case 'enum[]': {
+      const items = typeof value === 'string' ? value.split(',').map((v) => v.trim()) : value;
+      const valid =
+        Array.isArray(items) && items.length > 0 && items.every((item) => spec.values.includes(item));
+      return valid ? { value: items } : { error: `must be a list of ${spec.values.join(', ')}` };
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
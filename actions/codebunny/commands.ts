@@ -0,0 +1,352 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import * as yaml from 'js-yaml';
+import { getConfig } from './codebunny-config';
+import { getMaxListItems } from './github-pagination';
+import { findPreviousReview, getFindingKey, isIncrementalReviewEnabled, updateReviewState } from './incremental-review';
+import { createOverrideCheckRun } from './check-run';
+import { describePullRequest } from './pr-description';
+import { formatPatchesWithinBudget } from './review-batching';
+import { ReviewEngine, ReviewEngineType } from './review-engine';
+import { OutputConfig } from './review-output';
+import { formatLocation } from './review-schema';
+import { getPermissionLevel, hasPermission } from './trigger-guard';
+import { PRFile } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type CodebunnyCommand =
+  | { name: 'review'; focus?: string }
+  | { name: 'rereview' }
+  | { name: 'summarize' }
+  | { name: 'describe' }
+  | { name: 'explain'; file: string }
+  | { name: 'ignore'; finding: string }
+  | { name: 'override' }
+  | { name: 'help' }
+  | { name: 'config' }
+  | { name: 'unknown'; text: string };
+
+export interface CommandContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  prNumber: number;
+  pr: {
+    title: string;
+    body: string;
+    author: string;
+    headSha: string;
+  };
+  /** Login of the user who wrote the command */
+  requester: string;
+  files: PRFile[];
+  engine: ReviewEngine;
+  engineType: ReviewEngineType;
+  output: OutputConfig;
+}
+
+const COMMAND_MARKER = '<!-- codebunny-command -->';
+
+const COMMAND_ALIASES: Record<string, CodebunnyCommand['name']> = {
+  review: 'review',
+  rereview: 'rereview',
+  're-review': 'rereview',
+  summarize: 'summarize',
+  summarise: 'summarize',
+  summary: 'summarize',
+  describe: 'describe',
+  explain: 'explain',
+  ignore: 'ignore',
+  override: 'override',
+  help: 'help',
+  config: 'config',
+};
+
+export const COMMAND_HELP = `**CodeBunny commands**
+
+| Command | What it does |
+|---------|--------------|
+| \`@codebunny review [focus]\` | Review the pull request, optionally focusing on a topic such as \`security\` |
+| \`@codebunny rereview\` | Review the whole pull request again and bring back ignored findings |
+| \`@codebunny summarize\` | Summarize what the pull request changes |
+| \`@codebunny describe\` | Draft a description into the pull request body, keeping what the author wrote |
+| \`@codebunny explain <file>\` | Explain the changes to one file |
+| \`@codebunny ignore <finding>\` | Stop reporting a finding, matched by its title |
+| \`@codebunny override\` | Bypass the merge gate for this pull request (maintainers only) |
+| \`@codebunny config\` | Show the effective configuration |
+| \`@codebunny help\` | Show this message |`;
+
+/**
+ * Parse the command that follows the first @codebunny mention in a comment
+ * A bare mention asks for a review
+ */
+export function parseCommand(comment: string): CodebunnyCommand | null {
+  const match = comment.match(/@codebunny\b[ \t]*(.*)/i);
+  if (!match) return null;
+
+  const text = match[1].trim();
+  if (!text) {
+    return { name: 'review' };
+  }
+
+  const [word, ...rest] = text.split(/\s+/);
+  const argument = rest.join(' ').trim();
+  const name = COMMAND_ALIASES[word.toLowerCase().replace(/[.,:!?]+$/, '')];
+
+  switch (name) {
+    case 'review':
+      return { name, focus: argument || undefined };
+    case 'explain':
+      return { name, file: argument.replace(/^`|`$/g, '') };
+    case 'ignore':
+      return { name, finding: argument.replace(/^["'`]|["'`]$/g, '') };
+    case undefined:
+      return { name: 'unknown', text };
+    default:
+      return { name } as CodebunnyCommand;
+  }
+}
+
+/**
+ * Whether a command runs the full review pipeline rather than replying on its own
+ */
+export function isReviewCommand(command: CodebunnyCommand): boolean {
+  return command.name === 'review' || command.name === 'rereview';
+}
+
+/**
+ * Handle a command that replies with a comment instead of running a review
+ */
+export async function runCommand(command: CodebunnyCommand, ctx: CommandContext): Promise<void> {
+  core.info(`Running @codebunny ${command.name}`);
+
+  switch (command.name) {
+    case 'summarize':
+      return postCommandReply(ctx, await summarizePullRequest(ctx));
+    case 'describe':
+      await describePullRequest({ ...ctx, postToPR: ctx.output.sinks.includes('comment') });
+      return postCommandReply(
+        ctx,
+        '📝 I drafted a description into the pull request body. Text outside the CodeBunny block is left alone, and `@codebunny describe` regenerates only the block.'
+      );
+    case 'explain':
+      return postCommandReply(ctx, await explainFile(ctx, command.file));
+    case 'ignore':
+      return postCommandReply(ctx, await ignoreFinding(ctx, command.finding));
+    case 'override':
+      return postCommandReply(ctx, await overrideMergeGate(ctx));
+    case 'config':
+      return postCommandReply(ctx, renderEffectiveConfig(ctx));
+    case 'unknown':
+      return postCommandReply(
+        ctx,
+        `I don't know the command \`${command.text.split(/\s+/)[0]}\`.\n\n${COMMAND_HELP}`
+      );
+    case 'help':
+      return postCommandReply(ctx, COMMAND_HELP);
+    default:
+      throw new Error(`@codebunny ${command.name} runs a review and is not handled here`);
+  }
+}
+
+/**
+ * Reply on the pull request, or log the reply when comments are not an output sink
+ */
+export async function postCommandReply(
+  ctx: Pick<CommandContext, 'octokit' | 'owner' | 'repo' | 'prNumber' | 'output'>,
+  body: string
+): Promise<void> {
+  if (!ctx.output.sinks.includes('comment')) {
+    core.info(`Command reply (not posted):\n${body}`);
+    return;
+  }
+
+  const { data: comment } = await ctx.octokit.rest.issues.createComment({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    issue_number: ctx.prNumber,
+    body: `${COMMAND_MARKER}\n${body}`,
+  });
+  core.info(`✅ Posted command reply ${comment.id}`);
+}
+
+async function summarizePullRequest(ctx: CommandContext): Promise<string> {
+  const { maxFilePatchChars, batchCharBudget } = getConfig().limits;
+  const diffs = formatPatchesWithinBudget(ctx.files, batchCharBudget, maxFilePatchChars);
+
+  const prompt = `You are summarizing a pull request for its reviewers.
+
+# Pull Request: ${ctx.pr.title}
+- **Author**: ${ctx.pr.author}
+- **Description**: ${ctx.pr.body || 'No description provided'}
+
+## Changed Files
+${formatFileList(ctx.files)}
+
+## Diffs
+${diffs || 'The diffs are too large to include; summarize from the file list.'}
+
+Write a short markdown summary with these sections:
+### Overview
+One or two sentences on what the pull request does and why.
+### Key Changes
+A bullet list of the important changes, naming files where useful.
+### Review Focus
+The parts that deserve the closest look, or "Nothing stands out" if none.
+
+Respond with ONLY the markdown summary.`;
+
+  const summary = await ctx.engine.complete(prompt, {
+    label: 'continue-summary',
+    timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+  });
+
+  return `## 📝 Pull Request Summary\n\n${summary.trim()}`;
+}
+
+async function explainFile(ctx: CommandContext, query: string): Promise<string> {
+  const file = query ? findFile(ctx.files, query) : undefined;
+  if (!file) {
+    const reason = query
+      ? `I couldn't find a single changed file matching \`${query}\`.`
+      : 'Tell me which file to explain, e.g. `@codebunny explain src/index.ts`.';
+    return `${reason}\n\nChanged files:\n${formatFileList(ctx.files)}`;
+  }
+
+  if (!file.patch) {
+    return `\`${file.filename}\` has no text diff to explain (it may be binary, renamed or too large).`;
+  }
+
+  const { maxFilePatchChars } = getConfig().limits;
+  const patch =
+    file.patch.length > maxFilePatchChars
+      ? `${file.patch.slice(0, maxFilePatchChars)}\n... (diff truncated)`
+      : file.patch;
+
+  const prompt = `You are explaining one file's changes in a pull request to a reviewer who has not read it.
+
+# Pull Request: ${ctx.pr.title}
+- **Description**: ${ctx.pr.body || 'No description provided'}
+
+## File: ${file.filename}
+\`\`\`diff
+${patch}
+\`\`\`
+
+Explain in markdown what changed in this file and why it matters: the behavior before and after, how the new code works, and anything a reviewer should check. Refer to line numbers in the new file where helpful.
+
+Respond with ONLY the markdown explanation.`;
+
+  const explanation = await ctx.engine.complete(prompt, {
+    label: 'continue-explain',
+    timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+  });
+
+  return `## 🔍 \`${file.filename}\`\n\n${explanation.trim()}`;
+}
+
+/**
+ * Match an exact path first, then a unique path suffix such as a bare file name
+ */
+function findFile(files: PRFile[], query: string): PRFile | undefined {
+  const target = query.replace(/^\.?\//, '');
+  const exact = files.find((f) => f.filename === target);
+  if (exact) return exact;
+
+  const matches = files.filter((f) => f.filename.endsWith(`/${target}`));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+async function ignoreFinding(ctx: CommandContext, query: string): Promise<string> {
+  if (!query) {
+    return 'Tell me which finding to ignore, e.g. `@codebunny ignore Missing null check`.';
+  }
+
+  const previous = await findPreviousReview(ctx.octokit, ctx.owner, ctx.repo, ctx.prNumber);
+  if (!previous) {
+    return 'There is no previous review on this pull request to ignore findings from.';
+  }
+
+  const { state } = previous;
+  const needle = query.toLowerCase();
+  const matches = state.findings.filter((f) => f.title.toLowerCase().includes(needle));
+
+  if (matches.length === 0) {
+    const open = state.findings.map((f) => `- ${f.title}`).join('\n');
+    return `No finding in the last review matches "${query}".${open ? `\n\nOpen findings:\n${open}` : ''}`;
+  }
+
+  const keys = new Set([...state.ignored, ...matches.map(getFindingKey)]);
+  const remaining = state.findings.filter((f) => !keys.has(getFindingKey(f)));
+  if (!ctx.output.sinks.includes('comment')) {
+    core.info(`Dry run: not storing ${matches.length} ignored findings in the review comment`);
+  } else {
+    await updateReviewState(ctx.octokit, ctx.owner, ctx.repo, previous, {
+      ...state,
+      findings: remaining,
+      ignored: [...keys],
+    });
+  }
+
+  const list = matches
+    .map((f) => `- ${f.title}${f.file ? ` (${formatLocation(f)})` : ''}`)
+    .join('\n');
+  return `Ignoring ${matches.length === 1 ? 'this finding' : `these ${matches.length} findings`} in future reviews:\n${list}\n\nUse \`@codebunny rereview\` to bring them back.`;
+}
+
+/**
+ * Apply the override label so later reviews pass the gate, and clear a failing check right away
+ */
+async function overrideMergeGate(ctx: CommandContext): Promise<string> {
+  const { overrideLabel, overridePermission } = getConfig().gate;
+
+  const permission = await getPermissionLevel(ctx.octokit, ctx.owner, ctx.repo, ctx.requester);
+  if (!permission || !hasPermission(permission, overridePermission)) {
+    return `Sorry @${ctx.requester}, overriding the merge gate needs **${overridePermission}** access to this repository.`;
+  }
+
+  if (!ctx.output.sinks.includes('comment')) {
+    core.info(`Dry run: not applying the ${overrideLabel} label`);
+  } else {
+    await ctx.octokit.rest.issues.addLabels({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: ctx.prNumber,
+      labels: [overrideLabel],
+    });
+    core.info(`✅ Applied the ${overrideLabel} label`);
+  }
+
+  if (ctx.output.sinks.includes('check')) {
+    await createOverrideCheckRun(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.headSha, ctx.requester);
+  }
+
+  return `🔓 @${ctx.requester} overrode the merge gate. CodeBunny reviews still run, but they won't fail this pull request while the \`${overrideLabel}\` label is applied.`;
+}
+
+function renderEffectiveConfig(ctx: CommandContext): string {
+  const config = getConfig();
+  const effective = {
+    engine: ctx.engineType,
+    ...config,
+    review: { ...config.review, incremental: isIncrementalReviewEnabled() },
+    output: {
+      ...config.output,
+      modes: ctx.output.sinks,
+      dryRun: ctx.output.dryRun,
+      file: ctx.output.filePath,
+    },
+    limits: { ...config.limits, maxListItems: getMaxListItems() },
+  };
+
+  return `## ⚙️ Effective Configuration\n\n\`.codebunny.yml\` merged with the action inputs and defaults:\n\n\`\`\`yaml\n${yaml.dump(effective, { skipInvalid: true }).trim()}\n\`\`\``;
+}
+
+function formatFileList(files: PRFile[]): string {
+  const shown = files.slice(0, 50).map((f) => `- \`${f.filename}\` (+${f.additions}/-${f.deletions})`);
+  if (files.length > 50) {
+    shown.push(`- ...and ${files.length - 50} more`);
+  }
+  return shown.join('\n');
+}
@@ -0,0 +1,478 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getWorkspaceRoot } from './codebunny-config';
+
+/**
+ * How source files of one language look: where code lives, how imports, functions
+ * and types are declared, and the naming its community expects
+ */
+export interface LanguageProfile {
+  name: string;
+  extensions: string[];
+  /** Captures the imported module in group 1 */
+  importPattern: RegExp;
+  /** Captures a declared function or method name in group 1 */
+  functionPattern: RegExp;
+  /** Captures a declared type, class or trait name in group 1 */
+  typePattern: RegExp;
+  /** Test file globs for a source file's base name */
+  testFiles: (baseName: string) => string[];
+  naming: string;
+}
+
+/**
+ * What a detector learned from an ecosystem's manifest files
+ */
+export interface EcosystemInfo {
+  ecosystem: string;
+  manifest: string;
+  languages: string[];
+  frameworks: string[];
+  libraries: string[];
+  testRunners: string[];
+}
+
+/**
+ * Reads one ecosystem's manifests from the repository root
+ * Returns null when none of them exist
+ */
+export interface EcosystemDetector {
+  ecosystem: string;
+  detect(root: string): Promise<EcosystemInfo | null>;
+}
+
+type DependencyMatcher = {
+  name: string | RegExp;
+  label: string;
+  kind: 'framework' | 'library' | 'test';
+};
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    name: 'TypeScript',
+    extensions: ['ts', 'tsx'],
+    importPattern: /import\s+(?:type\s+)?(?:\{[^}]+\}|\*\s+as\s+\w+|\w+)?\s*(?:,\s*(?:type\s+)?\{[^}]+\})?\s*from\s+['"`]([^'"`]+)['"`]/g,
+    functionPattern: /(?:function\s+|const\s+|let\s+|var\s+)([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
+    typePattern: /(?:interface\s+|type\s+|enum\s+|class\s+)([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
+    testFiles: (base) => [`**/${base}.{test,spec}.{ts,tsx}`],
+    naming: 'camelCase functions and variables, PascalCase types and components',
+  },
+  {
+    name: 'JavaScript',
+    extensions: ['js', 'jsx', 'mjs', 'cjs'],
+    importPattern: /import\s+(?:\{[^}]+\}|\*\s+as\s+\w+|\w+)?\s*(?:,\s*\{[^}]+\})?\s*from\s+['"`]([^'"`]+)['"`]/g,
+    functionPattern: /(?:function\s+|const\s+|let\s+|var\s+)([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
+    typePattern: /class\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
+    testFiles: (base) => [`**/${base}.{test,spec}.{js,jsx,mjs,cjs}`],
+    naming: 'camelCase functions and variables, PascalCase classes and components',
+  },
+  {
+    name: 'Python',
+    extensions: ['py'],
+    importPattern: /^\s*(?:from|import)\s+([\w.]+)/gm,
+    functionPattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/gm,
+    typePattern: /^\s*class\s+([A-Za-z_]\w*)/gm,
+    testFiles: (base) => [`**/test_${base}.py`, `**/${base}_test.py`],
+    naming: 'snake_case functions, variables and modules, PascalCase classes (PEP 8)',
+  },
+  {
+    name: 'Go',
+    extensions: ['go'],
+    importPattern: /^\s*(?:import\s+)?(?:[\w.]+\s+)?"([\w.\-/]+)"\s*$/gm,
+    functionPattern: /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/gm,
+    typePattern: /^type\s+([A-Za-z_]\w*)\s+(?:struct|interface)/gm,
+    testFiles: (base) => [`**/${base}_test.go`],
+    naming: 'MixedCaps with no underscores; exported names start upper case, unexported lower case',
+  },
+  {
+    name: 'Rust',
+    extensions: ['rs'],
+    importPattern: /^\s*(?:pub\s+)?use\s+([\w:]+)/gm,
+    functionPattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+([A-Za-z_]\w*)/gm,
+    typePattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|type)\s+([A-Za-z_]\w*)/gm,
+    testFiles: (base) => [`tests/${base}.rs`, `**/tests/${base}.rs`],
+    naming: 'snake_case functions, variables and modules, UpperCamelCase types and traits',
+  },
+  {
+    name: 'Java',
+    extensions: ['java'],
+    importPattern: /^\s*import\s+(?:static\s+)?([\w.]+)/gm,
+    functionPattern: /^\s*(?:(?:public|protected|private|static|final|abstract|synchronized)\s+)+[\w<>[\],\s]+?\s+([a-zA-Z_]\w*)\s*\(/gm,
+    typePattern: /\b(?:class|interface|enum|record)\s+([A-Za-z_]\w*)/g,
+    testFiles: (base) => [`**/${base}Test.java`, `**/${base}Tests.java`],
+    naming: 'camelCase methods and variables, PascalCase classes, UPPER_SNAKE_CASE constants',
+  },
+  {
+    name: 'Kotlin',
+    extensions: ['kt', 'kts'],
+    importPattern: /^\s*import\s+([\w.]+)/gm,
+    functionPattern: /\bfun\s+(?:<[^>]+>\s*)?(?:[\w.]+\.)?([a-zA-Z_]\w*)\s*\(/g,
+    typePattern: /\b(?:class|interface|object)\s+([A-Za-z_]\w*)/g,
+    testFiles: (base) => [`**/${base}Test.kt`],
+    naming: 'camelCase functions and properties, PascalCase classes and objects',
+  },
+  {
+    name: 'Ruby',
+    extensions: ['rb'],
+    importPattern: /^\s*require(?:_relative)?\s*\(?\s*['"]([^'"]+)['"]/gm,
+    functionPattern: /^\s*def\s+(?:self\.)?([a-zA-Z_]\w*[?!=]?)/gm,
+    typePattern: /^\s*(?:class|module)\s+([A-Z]\w*)/gm,
+    testFiles: (base) => [`**/${base}_spec.rb`, `**/${base}_test.rb`, `**/test_${base}.rb`],
+    naming: 'snake_case methods, variables and files, CamelCase classes and modules',
+  },
+];
+
+const NODE_DEPENDENCIES: DependencyMatcher[] = [
+  { name: 'react', label: 'React', kind: 'framework' },
+  { name: 'vue', label: 'Vue', kind: 'framework' },
+  { name: /^(angular|@angular\/core)$/, label: 'Angular', kind: 'framework' },
+  { name: 'next', label: 'Next.js', kind: 'framework' },
+  { name: 'nuxt', label: 'Nuxt.js', kind: 'framework' },
+  { name: 'svelte', label: 'Svelte', kind: 'framework' },
+  { name: 'express', label: 'Express', kind: 'framework' },
+  { name: '@nestjs/core', label: 'NestJS', kind: 'framework' },
+  { name: 'fastify', label: 'Fastify', kind: 'framework' },
+  { name: 'typescript', label: 'TypeScript', kind: 'library' },
+  { name: 'tailwindcss', label: 'Tailwind CSS', kind: 'library' },
+  { name: 'styled-components', label: 'Styled Components', kind: 'library' },
+  { name: /^(emotion|@emotion\/react)$/, label: 'Emotion', kind: 'library' },
+  { name: 'zustand', label: 'Zustand', kind: 'library' },
+  { name: /^(redux|@reduxjs\/toolkit)$/, label: 'Redux', kind: 'library' },
+  { name: 'axios', label: 'Axios', kind: 'library' },
+  { name: /^(storybook|@storybook\/react)$/, label: 'Storybook', kind: 'library' },
+  { name: 'vitest', label: 'Vitest', kind: 'test' },
+  { name: 'jest', label: 'Jest', kind: 'test' },
+  { name: 'mocha', label: 'Mocha', kind: 'test' },
+  { name: /^(playwright|@playwright\/test)$/, label: 'Playwright', kind: 'test' },
+  { name: 'cypress', label: 'Cypress', kind: 'test' },
+];
+
+const PYTHON_DEPENDENCIES: DependencyMatcher[] = [
+  { name: 'django', label: 'Django', kind: 'framework' },
+  { name: 'flask', label: 'Flask', kind: 'framework' },
+  { name: 'fastapi', label: 'FastAPI', kind: 'framework' },
+  { name: 'starlette', label: 'Starlette', kind: 'framework' },
+  { name: 'djangorestframework', label: 'Django REST Framework', kind: 'library' },
+  { name: 'pydantic', label: 'Pydantic', kind: 'library' },
+  { name: 'sqlalchemy', label: 'SQLAlchemy', kind: 'library' },
+  { name: 'celery', label: 'Celery', kind: 'library' },
+  { name: 'numpy', label: 'NumPy', kind: 'library' },
+  { name: 'pandas', label: 'pandas', kind: 'library' },
+  { name: 'requests', label: 'Requests', kind: 'library' },
+  { name: 'mypy', label: 'mypy', kind: 'library' },
+  { name: 'pytest', label: 'pytest', kind: 'test' },
+  { name: 'tox', label: 'tox', kind: 'test' },
+  { name: 'hypothesis', label: 'Hypothesis', kind: 'test' },
+];
+
+const GO_DEPENDENCIES: DependencyMatcher[] = [
+  { name: 'github.com/gin-gonic/gin', label: 'Gin', kind: 'framework' },
+  { name: /^github\.com\/labstack\/echo/, label: 'Echo', kind: 'framework' },
+  { name: /^github\.com\/gofiber\/fiber/, label: 'Fiber', kind: 'framework' },
+  { name: /^github\.com\/go-chi\/chi/, label: 'chi', kind: 'framework' },
+  { name: 'github.com/gorilla/mux', label: 'Gorilla Mux', kind: 'framework' },
+  { name: 'google.golang.org/grpc', label: 'gRPC', kind: 'library' },
+  { name: 'gorm.io/gorm', label: 'GORM', kind: 'library' },
+  { name: 'github.com/spf13/cobra', label: 'Cobra', kind: 'library' },
+  { name: /^go\.uber\.org\/zap/, label: 'zap', kind: 'library' },
+  { name: 'github.com/stretchr/testify', label: 'testify', kind: 'test' },
+  { name: /^github\.com\/onsi\/ginkgo/, label: 'Ginkgo', kind: 'test' },
+];
+
+const RUST_DEPENDENCIES: DependencyMatcher[] = [
+  { name: 'actix-web', label: 'Actix Web', kind: 'framework' },
+  { name: 'axum', label: 'Axum', kind: 'framework' },
+  { name: 'rocket', label: 'Rocket', kind: 'framework' },
+  { name: 'tokio', label: 'Tokio', kind: 'library' },
+  { name: 'serde', label: 'Serde', kind: 'library' },
+  { name: 'diesel', label: 'Diesel', kind: 'library' },
+  { name: 'sqlx', label: 'SQLx', kind: 'library' },
+  { name: 'clap', label: 'clap', kind: 'library' },
+  { name: 'proptest', label: 'proptest', kind: 'test' },
+  { name: 'rstest', label: 'rstest', kind: 'test' },
+  { name: 'criterion', label: 'Criterion', kind: 'test' },
+];
+
+const JVM_DEPENDENCIES: DependencyMatcher[] = [
+  { name: /^(spring-boot|org\.springframework\.boot)/, label: 'Spring Boot', kind: 'framework' },
+  { name: /^quarkus/, label: 'Quarkus', kind: 'framework' },
+  { name: /^micronaut/, label: 'Micronaut', kind: 'framework' },
+  { name: /^ktor/, label: 'Ktor', kind: 'framework' },
+  { name: /^hibernate/, label: 'Hibernate', kind: 'library' },
+  { name: 'lombok', label: 'Lombok', kind: 'library' },
+  { name: /^jackson/, label: 'Jackson', kind: 'library' },
+  { name: /^(junit-jupiter|junit)$/, label: 'JUnit', kind: 'test' },
+  { name: /^mockito/, label: 'Mockito', kind: 'test' },
+  { name: /^testng$/, label: 'TestNG', kind: 'test' },
+  { name: /^kotest/, label: 'Kotest', kind: 'test' },
+];
+
+const RUBY_DEPENDENCIES: DependencyMatcher[] = [
+  { name: 'rails', label: 'Rails', kind: 'framework' },
+  { name: 'sinatra', label: 'Sinatra', kind: 'framework' },
+  { name: 'hanami', label: 'Hanami', kind: 'framework' },
+  { name: 'sidekiq', label: 'Sidekiq', kind: 'library' },
+  { name: 'devise', label: 'Devise', kind: 'library' },
+  { name: 'sorbet', label: 'Sorbet', kind: 'library' },
+  { name: 'rubocop', label: 'RuboCop', kind: 'library' },
+  { name: /^rspec/, label: 'RSpec', kind: 'test' },
+  { name: 'minitest', label: 'Minitest', kind: 'test' },
+];
+
+export const ECOSYSTEM_DETECTORS: EcosystemDetector[] = [
+  {
+    ecosystem: 'Node.js',
+    async detect(root) {
+      const content = await readManifest(root, 'package.json');
+      if (content === null) return null;
+
+      const pkg = JSON.parse(content);
+      const names = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies });
+      const info = classifyDependencies('Node.js', 'package.json', names, NODE_DEPENDENCIES);
+      const hasTsConfig = (await readManifest(root, 'tsconfig.json')) !== null;
+      info.languages = info.libraries.includes('TypeScript') || hasTsConfig ? ['TypeScript'] : ['JavaScript'];
+      return info;
+    },
+  },
+  {
+    ecosystem: 'Python',
+    async detect(root) {
+      const pyproject = await readManifest(root, 'pyproject.toml');
+      const requirements = await readManifest(root, 'requirements.txt');
+      if (pyproject === null && requirements === null) return null;
+
+      const names = [
+        ...(pyproject ? parsePyprojectDependencies(pyproject) : []),
+        ...(requirements ? parseRequirements(requirements) : []),
+      ];
+      const manifest = pyproject !== null ? 'pyproject.toml' : 'requirements.txt';
+      return classifyDependencies('Python', manifest, names, PYTHON_DEPENDENCIES, ['Python']);
+    },
+  },
+  {
+    ecosystem: 'Go',
+    async detect(root) {
+      const content = await readManifest(root, 'go.mod');
+      if (content === null) return null;
+      const info = classifyDependencies('Go', 'go.mod', parseGoModules(content), GO_DEPENDENCIES, ['Go']);
+      info.testRunners.unshift('go test');
+      return info;
+    },
+  },
+  {
+    ecosystem: 'Rust',
+    async detect(root) {
+      const content = await readManifest(root, 'Cargo.toml');
+      if (content === null) return null;
+      const info = classifyDependencies('Rust', 'Cargo.toml', parseCargoDependencies(content), RUST_DEPENDENCIES, [
+        'Rust',
+      ]);
+      info.testRunners.unshift('cargo test');
+      return info;
+    },
+  },
+  {
+    ecosystem: 'JVM',
+    async detect(root) {
+      for (const manifest of ['pom.xml', 'build.gradle.kts', 'build.gradle']) {
+        const content = await readManifest(root, manifest);
+        if (content === null) continue;
+
+        const names = manifest === 'pom.xml' ? parsePomDependencies(content) : parseGradleDependencies(content);
+        const usesKotlin = manifest.endsWith('.kts') || /kotlin/i.test(content);
+        return classifyDependencies('JVM', manifest, names, JVM_DEPENDENCIES, usesKotlin ? ['Kotlin', 'Java'] : ['Java']);
+      }
+      return null;
+    },
+  },
+  {
+    ecosystem: 'Ruby',
+    async detect(root) {
+      const content = await readManifest(root, 'Gemfile');
+      if (content === null) return null;
+      return classifyDependencies('Ruby', 'Gemfile', parseGemfile(content), RUBY_DEPENDENCIES, ['Ruby']);
+    },
+  },
+];
+
+/**
+ * Run every ecosystem detector against the repository root
+ * A detector that fails on a malformed manifest is skipped with a debug message
+ */
+export async function detectEcosystems(root: string = getWorkspaceRoot()): Promise<EcosystemInfo[]> {
+  const detected: EcosystemInfo[] = [];
+
+  for (const detector of ECOSYSTEM_DETECTORS) {
+    try {
+      const info = await detector.detect(root);
+      if (info) {
+        detected.push(info);
+      }
+    } catch (error) {
+      core.debug(`Failed to detect the ${detector.ecosystem} ecosystem: ${error}`);
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * The language profile for a file, by extension
+ */
+export function getLanguageForFile(file: string): LanguageProfile | undefined {
+  const ext = path.extname(file).slice(1).toLowerCase();
+  return LANGUAGES.find((language) => language.extensions.includes(ext));
+}
+
+export function getLanguageProfile(name: string): LanguageProfile | undefined {
+  return LANGUAGES.find((language) => language.name === name);
+}
+
+/**
+ * Every source extension the analyzer understands, for globbing related files
+ */
+export function getSourceExtensions(): string[] {
+  return LANGUAGES.flatMap((language) => language.extensions);
+}
+
+export function parseRequirements(content: string): string[] {
+  return content
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => line && !line.startsWith('-'))
+    .map((line) => normalizePythonName(line.split(/[<>=~!;[\s@]/)[0]))
+    .filter(Boolean);
+}
+
+/**
+ * Dependency names from PEP 621 arrays and Poetry tables, without a TOML parser
+ */
+export function parsePyprojectDependencies(content: string): string[] {
+  const names: string[] = [];
+  let table = '';
+
+  // PEP 621 and PEP 735: dependencies = ["django>=4"] under [project], and every array
+  // under [project.optional-dependencies] or [dependency-groups]
+  for (const match of content.matchAll(/^\s*\[([^\]]+)\]\s*$|^\s*([\w-]+)\s*=\s*\[([\s\S]*?)\]\s*$/gm)) {
+    if (match[1]) {
+      table = match[1].trim();
+      continue;
+    }
+
+    const isDependencyArray =
+      (table === 'project' && match[2] === 'dependencies') ||
+      table === 'project.optional-dependencies' ||
+      table === 'dependency-groups';
+    if (!isDependencyArray) continue;
+
+    for (const item of match[3].matchAll(/["']([^"']+)["']/g)) {
+      names.push(normalizePythonName(item[1].split(/[<>=~!;[\s@]/)[0]));
+    }
+  }
+
+  // Poetry: keys under [tool.poetry.dependencies] and [tool.poetry.group.*.dependencies]
+  names.push(
+    ...parseTomlTableKeys(content, /^tool\.poetry\.(?:group\.[\w-]+\.|dev-)?dependencies$/).map(normalizePythonName)
+  );
+
+  return names.filter((name) => name && name !== 'python');
+}
+
+export function parseGoModules(content: string): string[] {
+  const modules: string[] = [];
+  for (const match of content.matchAll(/^\s*(?:require\s+)?([a-z0-9.-]+\.[a-z]+\/[^\s]+)\s+v[\w.+-]+/gim)) {
+    modules.push(match[1]);
+  }
+  return modules;
+}
+
+export function parseCargoDependencies(content: string): string[] {
+  return parseTomlTableKeys(content, /dependencies$/);
+}
+
+export function parsePomDependencies(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(/<(?:dependency|parent|plugin)>([\s\S]*?)<\/(?:dependency|parent|plugin)>/g)) {
+    const artifact = match[1].match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/);
+    if (artifact) names.push(artifact[1]);
+  }
+  return names;
+}
+
+export function parseGradleDependencies(content: string): string[] {
+  const names: string[] = [];
+
+  // implementation("group:artifact:version") and friends
+  for (const match of content.matchAll(/\b\w*(?:[Ii]mplementation|[Aa]pi|[Cc]ompileOnly|[Rr]untimeOnly)\s*\(?\s*["']([^:"']+):([^:"']+)/g)) {
+    names.push(match[2]);
+  }
+
+  // plugins { id("org.springframework.boot") }
+  for (const match of content.matchAll(/\bid\s*\(?\s*["']([^"']+)["']/g)) {
+    names.push(match[1]);
+  }
+
+  return names;
+}
+
+export function parseGemfile(content: string): string[] {
+  return Array.from(content.matchAll(/^\s*gem\s+["']([^"']+)["']/gm), (match) => match[1]);
+}
+
+function classifyDependencies(
+  ecosystem: string,
+  manifest: string,
+  names: string[],
+  matchers: DependencyMatcher[],
+  languages: string[] = []
+): EcosystemInfo {
+  const info: EcosystemInfo = { ecosystem, manifest, languages, frameworks: [], libraries: [], testRunners: [] };
+  const lists = { framework: info.frameworks, library: info.libraries, test: info.testRunners };
+
+  for (const matcher of matchers) {
+    const found = names.some((name) =>
+      typeof matcher.name === 'string' ? name === matcher.name : matcher.name.test(name)
+    );
+    if (found && !lists[matcher.kind].includes(matcher.label)) {
+      lists[matcher.kind].push(matcher.label);
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Keys of every TOML table whose header matches, e.g. [dependencies] or [dev-dependencies]
+ */
+function parseTomlTableKeys(content: string, header: RegExp): string[] {
+  const keys: string[] = [];
+  let inTable = false;
+
+  for (const line of content.split('\n')) {
+    const table = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (table) {
+      inTable = header.test(table[1].trim());
+      continue;
+    }
+
+    const key = line.match(/^\s*([A-Za-z0-9_.-]+)\s*=/);
+    if (inTable && key) {
+      keys.push(key[1]);
+    }
+  }
+
+  return keys;
+}
+
+function normalizePythonName(name: string): string {
+  return name.trim().toLowerCase().replace(/[._]+/g, '-');
+}
+
+async function readManifest(root: string, name: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(root, name), 'utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -1,42 +1,26 @@
-import { ProjectContext } from './codebase-analyzer';
-
-interface ReviewContext {
-  pr: {
-    number: number;
-    title: string;
-    body: string;
-    author: string;
-    files: PRFile[];
-  };
-  rules: Rule[];
-  command?: string;
-  repository: string;
-}
-
-interface PRFile {
-  filename: string;
-  patch?: string;
-  additions: number;
-  deletions: number;
-}
-
-interface Rule {
-  file: string;
-  globs: string;
-  description?: string;
-  alwaysApply?: boolean;
-  content: string;
-}
+import { PackageContext, ProjectContext } from './codebase-analyzer';
+import { getLanguageProfile } from './ecosystems';
+import { ModuleImpact } from './import-graph';
+import { REVIEW_JSON_INSTRUCTIONS, formatLocation } from './review-schema';
+import { ReviewBatch } from './review-batching';
+import { hasChecks } from './rule-checks';
+import { formatRuleMetadata } from './rules';
+import { IncrementalContext, PRFile, ReviewContext, Rule } from './types';
+import { groupByPackage } from './workspaces';
 
 /**
  * Generate enhanced, context-aware review prompt
  */
 export function generateEnhancedPrompt(
   context: ReviewContext,
-  projectContext: ProjectContext
+  projectContext: ProjectContext,
+  batch?: ReviewBatch
 ): string {
-  const { pr, rules, command, repository } = context;
-  const { patterns, conventions, architecture } = projectContext;
+  const { pr, rules, command, repository, incremental } = context;
+  const { patterns, conventions, architecture, exports } = projectContext;
+
+  // Rules with checks are enforced without the model
+  const promptRules = rules.filter((rule) => !hasChecks(rule));
 
   let prompt = `You are an expert code reviewer performing a thorough analysis of code changes.
 
@@ -46,7 +30,8 @@ export function generateEnhancedPrompt(
 
 This is a **${inferProjectType(conventions, architecture)}** project.
 
-${generateProjectContext(conventions, architecture, patterns, rules)}
+${generateProjectContext(conventions, architecture, exports, patterns, promptRules)}
+${projectContext.workspace ? generateWorkspaceContext(projectContext.workspace) : ''}
 
 ---
 
@@ -59,6 +44,8 @@ ${generateProjectContext(conventions, architecture, patterns, rules)}
 - **Description**: ${pr.body || 'No description provided'}
 
 ${command ? `\n## Specific Review Request\n"${command}"\n` : ''}
+${incremental ? generateIncrementalScope(incremental) : ''}
+${batch && batch.total > 1 ? generateBatchScope(batch) : ''}
 
 ## Review Focus Areas
 
@@ -97,90 +84,179 @@ ${command ? `\n## Specific Review Request\n"${command}"\n` : ''}
 - Minor naming choices unless genuinely confusing
 - Already-working code that doesn't need changes
 
-## Review Output Format
+${REVIEW_JSON_INSTRUCTIONS}
+
+---
+
+# Code Changes to Review
 
-Structure your review with clear markdown formatting (use ## and ### headers, but never # h1):
+`;
 
-**START WITH A TLDR RECOMMENDATION AT THE VERY TOP:**
+  // Add code changes for the files in scope, grouped by package in a monorepo
+  const filesInScope = batch ? batch.files : pr.files;
+  const packages = projectContext.workspace?.packages || [];
+  if (packages.length > 0) {
+    for (const { pkg, items } of groupByPackage(filesInScope, (f) => f.filename, packages)) {
+      prompt += pkg ? `\n## Package: ${pkg.name} (\`${pkg.dir}\`)\n` : `\n## Outside workspace packages\n`;
+      prompt += formatPatches(items, '###');
+    }
+  } else {
+    prompt += formatPatches(filesInScope, '##');
+  }
 
-## 🎯 TLDR
-**Recommendation**: [MERGE ✅ | DON'T MERGE ❌ | MERGE AFTER CHANGES 🔄]
-**Summary**: [One or two lines explaining the main reason for this recommendation]
+  const inScope = new Set(filesInScope.map((f) => f.filename));
+  prompt += generateBlastRadius(projectContext.impact.filter((impact) => inScope.has(impact.file)));
 
+  prompt += `
 ---
 
-Then continue with the detailed review:
+Please provide a comprehensive, actionable review that helps improve code quality while respecting the established patterns and conventions of this ${repository} codebase.
+
+Focus on issues that matter for functionality, security, maintainability, and consistency with established patterns.
 
-## Review Summary
+## Important Guidelines
+
+- Only comment on what you can see in the diff
+- Provide specific file paths and line numbers for all issues
+- Be constructive and suggest solutions
+- Focus on actual problems, not preferences
 
-Provide a brief overview of your findings and overall assessment.
+IMPORTANT OUTPUT RULES:
+- Respond with ONLY the JSON object described in "Review Output Format"
+- Include file paths and line numbers for every finding that refers to specific code`;
 
-## Issues Found
+  return prompt;
+}
 
-For each issue, use ### headers with clear structure:
+/**
+ * List the modules outside the PR that import the changed files, with the exports they use,
+ * so signature and behavior changes that break callers can be reported
+ */
+function generateBlastRadius(impact: ModuleImpact[]): string {
+  if (impact.length === 0) {
+    return '';
+  }
 
-### 1. Issue Title
-**Priority**: High/Medium/Low
-**File**: \`path/to/file.ts:line\`
-**Problem**: Clear description of the issue
-**Why it matters**: Explanation of impact
-**Fix**: Concrete solution with code example
+  const sections = impact.map((module) => {
+    const shown = module.importers.length;
+    const count = `${module.totalImporters} module${module.totalImporters !== 1 ? 's' : ''}`;
+    let section = `\n### \`${module.file}\`${module.removed ? ' (deleted in this PR)' : ''}\nImported by ${count}${
+      module.totalImporters > shown ? ` (showing ${shown})` : ''
+    }:\n`;
+
+    section += module.importers
+      .map((edge) => {
+        const names = edge.names.filter((name) => name !== '*');
+        const uses = names.length > 0 ? names.map((name) => `\`${name}\``).join(', ') : 'the whole module';
+        return `- \`${edge.importer}\` uses ${uses}`;
+      })
+      .join('\n');
+
+    const signatures = Object.entries(module.signatures).slice(0, 10);
+    if (signatures.length > 0) {
+      section += `\n\nCurrent signatures of the used exports:\n\`\`\`\n${signatures
+        .map(([name, signature]) => (signature.includes(name) ? signature : `${name}: ${signature}`))
+        .join('\n')}\n\`\`\``;
+    }
 
-## Recommendations
-- Overall assessment and next steps
-- Critical issues that need immediate attention
-- Suggestions for improvement
+    for (const missing of module.missingExports) {
+      section += `\n\n⚠️ \`${missing.name}\` is imported by ${missing.importers
+        .slice(0, 5)
+        .map((importer) => `\`${importer}\``)
+        .join(', ')} but is ${module.removed ? 'in a deleted file' : 'no longer exported'}.`;
+    }
+    return section;
+  });
 
+  return `
 ---
 
-# Code Changes to Review
+# Blast Radius
 
+These modules are not part of this pull request but import the changed files. A changed signature, a renamed or removed export, or a change in behavior they rely on breaks them; report it as a high priority finding on the changed line and name the affected modules.
+${sections.join('\n')}
 `;
+}
 
-  // Add code changes with size limits
-  let diffContent = '';
-  let isTruncated = false;
-
-  for (const file of pr.files) {
-    if (file.patch) {
-      diffContent += `\n## File: ${file.filename}\n\`\`\`diff\n${file.patch}\n\`\`\`\n`;
-    }
-  }
+function formatPatches(files: PRFile[], heading: string): string {
+  return files
+    .filter((file) => file.patch)
+    .map((file) => `\n${heading} File: ${file.filename}\n\`\`\`diff\n${file.patch}\n\`\`\`\n`)
+    .join('');
+}
 
-  // Truncate if too large (15KB limit, increased from 12KB for better context)
-  if (diffContent.length > 15000) {
-    isTruncated = true;
-    diffContent = diffContent.substring(0, 14000) + '\n```\n\n**⚠️ DIFF TRUNCATED**: The complete diff exceeds size limits. Review only the visible portions.';
+/**
+ * Describe the monorepo packages this PR touches, each with its own stack and naming,
+ * so files are judged by the conventions of the package they live in
+ */
+function generateWorkspaceContext(workspace: { tools: string[]; packages: PackageContext[] }): string {
+  if (workspace.packages.length === 0) {
+    return '';
   }
 
-  prompt += diffContent;
+  const packages = workspace.packages.map((pkg) => {
+    const { frameworks, libraries, testRunners, languages } = pkg.dependencies;
+    const stack = [...languages, ...frameworks, ...libraries.slice(0, 3), ...testRunners].filter(
+      (item, i, all) => all.indexOf(item) === i
+    );
+    const naming = [
+      pkg.naming.files.length > 0 ? `files ${getMostCommon(pkg.naming.files)}` : '',
+      pkg.naming.functions.length > 0 ? `functions ${getMostCommon(pkg.naming.functions)}` : '',
+    ].filter(Boolean);
+
+    let line = `- **${pkg.name}** (\`${pkg.dir}\`, ${pkg.files.length} changed file${pkg.files.length !== 1 ? 's' : ''})`;
+    if (stack.length > 0) line += `: ${stack.join(', ')}`;
+    if (naming.length > 0) line += `; naming: ${naming.join(', ')}`;
+    return line;
+  });
+
+  return `### Workspace
+This is a ${workspace.tools.join(' + ')} monorepo. The changes touch ${workspace.packages.length} package${
+    workspace.packages.length !== 1 ? 's' : ''
+  }:
+${packages.join('\n')}
+
+Judge each file by the dependencies and conventions of its own package, and flag changes that break another package's use of it.
+`;
+}
 
-  if (isTruncated) {
-    prompt += `\n\n## ⚠️ Important: Handling Truncated Diffs\n\nThe diff has been truncated due to size. When reviewing:\n\n1. **DO NOT** comment on truncation or incomplete content\n2. **DO** review all visible code thoroughly\n3. **DO** mention if you need to see specific files to complete the review\n4. **DO** provide actionable feedback on what you can see\n5. Focus your review on the visible portions only\n\nIf critical files are cut off, recommend viewing them directly in the GitHub PR.`;
-  }
+/**
+ * Explain which part of a large PR this prompt covers
+ */
+function generateBatchScope(batch: ReviewBatch): string {
+  const otherFiles = batch.otherFiles.slice(0, 50).map((f) => `- ${f}`).join('\n');
+  const moreFiles = batch.otherFiles.length > 50 ? `\n- ...and ${batch.otherFiles.length - 50} more` : '';
 
-  prompt += `
----
+  return `
+## Review Scope
 
-Please provide a comprehensive, actionable review that helps improve code quality while respecting the established patterns and conventions of this ${repository} codebase.
+This pull request is large, so it is reviewed in ${batch.total} parts. This is **part ${batch.index} of ${batch.total}** and contains ${batch.files.length} of the changed files.
 
-Focus on issues that matter for functionality, security, maintainability, and consistency with established patterns.
+- Only report findings for the files included below
+- Base your recommendation on this part alone; the parts are merged afterwards
+- Other changed files in this pull request (not shown here):
+${otherFiles}${moreFiles}
+`;
+}
 
-## Important Guidelines
+/**
+ * Explain that only commits pushed since the last review are shown, and list what is still open
+ */
+export function generateIncrementalScope(incremental: IncrementalContext): string {
+  const previous = incremental.previousFindings
+    .map((f) => `- [${f.priority}] ${f.title}${f.file ? ` (${formatLocation(f)})` : ''}`)
+    .join('\n');
 
-- Only comment on what you can see in the diff
-- Provide specific file paths and line numbers for all issues
-- Be constructive and suggest solutions
-- Focus on actual problems, not preferences
+  return `
+## Incremental Review
 
-IMPORTANT FORMATTING RULES:
-- Use proper markdown formatting with ## and ### headers for clear structure
-- Never use # (h1 headers) - start with ## for main sections and ### for specific issues
-- DO NOT mention or comment on diff truncation - review what you can see
-- If the diff was truncated, simply review the visible portions without mentioning the truncation
-- Include file paths and line numbers for all claims and suggestions`;
+This pull request was already reviewed at commit \`${incremental.baseSha.slice(0, 7)}\`. Only the changes pushed since then (up to \`${incremental.headSha.slice(0, 7)}\`) are shown below.
 
-  return prompt;
+- Review only these new changes and do not repeat points from the previous review
+- Previous findings on files not shown below are carried forward automatically
+- Report a previous finding on a file shown below again only if the new code still has the problem
+- Base your recommendation on the whole pull request, including the previous findings that remain open
+${previous ? `\nFindings from the previous review:\n${previous}\n` : ''}`;
 }
 
 /**
@@ -189,22 +265,39 @@ IMPORTANT FORMATTING RULES:
 function generateProjectContext(
   conventions: any,
   architecture: any,
+  exports: ProjectContext['exports'],
   patterns: any[],
   rules: Rule[]
 ): string {
   let context = '';
 
   // Add technology stack if available
-  const { frameworks, libraries } = conventions.dependencies;
-  if (frameworks.length > 0 || libraries.length > 0) {
+  const { frameworks, libraries, testRunners, languages } = conventions.dependencies;
+  if (frameworks.length > 0 || libraries.length > 0 || languages.length > 0) {
     context += '### Technology Stack\n';
+    if (languages.length > 0) {
+      context += `- **Languages**: ${languages.join(', ')}\n`;
+    }
     if (frameworks.length > 0) {
       context += `- **Frameworks**: ${frameworks.join(', ')}\n`;
     }
     if (libraries.length > 0) {
       context += `- **Libraries**: ${libraries.slice(0, 5).join(', ')}\n`;
     }
+    if (testRunners.length > 0) {
+      context += `- **Test Runners**: ${testRunners.join(', ')}\n`;
+    }
     context += '\n';
+
+    // Language idioms, so Python is not reviewed against camelCase and so on
+    const idioms = languages
+      .map((name: string) => getLanguageProfile(name))
+      .filter(Boolean)
+      .map((language: any) => `- **${language.name}**: ${language.naming}`);
+    if (idioms.length > 0) {
+      context += '### Language Conventions\n';
+      context += idioms.join('\n') + '\n\n';
+    }
   }
 
   // Add patterns if found
@@ -214,6 +307,34 @@ function generateProjectContext(
     context += patternInsights + '\n';
   }
 
+  // Add architecture patterns, most common first
+  const architectureLines = [
+    ['Components', architecture.componentPatterns],
+    ['Data Flow', architecture.dataFlowPatterns],
+    ['Error Handling', architecture.errorHandlingPatterns],
+  ]
+    .filter(([, found]) => found.length > 0)
+    .map(([label, found]) => `- **${label}**: ${getTopItems(found, 4).join(', ')}`);
+  if (architectureLines.length > 0) {
+    context += '### Architecture\n';
+    context += architectureLines.join('\n') + '\n\n';
+  }
+
+  // Existing exports let the review suggest reusing a helper instead of duplicating it
+  const exportLines = (
+    [
+      ['Hooks', exports.hooks],
+      ['Components', exports.components],
+      ['Functions', exports.functions],
+    ] as Array<[string, string[]]>
+  )
+    .filter(([, names]) => names.length > 0)
+    .map(([label, names]) => `- **${label}**: ${names.slice(0, 15).map((name) => `\`${name}\``).join(', ')}`);
+  if (exportLines.length > 0) {
+    context += '### Existing Exports in Related Files\n';
+    context += exportLines.join('\n') + '\n\n';
+  }
+
   // Add custom rules if present
   if (rules.length > 0) {
     context += '### Project Rules\n';
@@ -227,7 +348,7 @@ function generateProjectContext(
  * Infer project type based on dependencies and patterns
  */
 function inferProjectType(conventions: any, architecture: any): string {
-  const { frameworks, libraries } = conventions.dependencies;
+  const { frameworks, libraries, languages } = conventions.dependencies;
 
   if (frameworks.includes('React')) {
     if (frameworks.includes('Next.js')) return 'Next.js';
@@ -237,6 +358,13 @@ function inferProjectType(conventions: any, architecture: any): string {
   if (frameworks.includes('Vue')) return 'Vue.js';
   if (frameworks.includes('Angular')) return 'Angular';
   if (frameworks.includes('Svelte')) return 'Svelte';
+
+  // Server frameworks name their language, e.g. "Django (Python)"
+  const [primary] = languages;
+  if (frameworks.length > 0) {
+    return primary ? `${frameworks[0]} (${primary})` : frameworks[0];
+  }
+  if (primary) return primary;
   if (libraries.includes('TypeScript')) return 'TypeScript';
 
   return 'JavaScript';
@@ -280,10 +408,19 @@ function generatePatternInsights(patterns: any[], conventions: any): string {
     insights += `**Common Imports**: ${topImports}\n`;
   }
 
-  return insights || 'Standard patterns detected';
-}
+  // Declaration styles from the TS/JS parser, e.g. exported arrow functions vs declarations
+  const topStyles = patterns
+    .filter((p) => p.type !== 'import')
+    .slice(0, 4)
+    .map((p) => p.pattern)
+    .join(', ');
 
+  if (topStyles) {
+    insights += `**Declaration Styles**: ${topStyles}\n`;
+  }
 
+  return insights || 'Standard patterns detected';
+}
 
 /**
  * Generate quality standards from rules
@@ -293,10 +430,10 @@ function generateQualityStandards(rules: Rule[]): string {
     return '';
   }
 
+  // Rules arrive sorted by priority, so the most important ones are kept
   const keyRules = rules
-    .filter((rule) => rule.description)
     .slice(0, 5)
-    .map((rule) => `- ${rule.description}`)
+    .map((rule) => `- ${rule.description || rule.file} ${formatRuleMetadata(rule)}`)
     .join('\n');
 
   return keyRules || 'Custom project rules apply';
@@ -316,3 +453,16 @@ function getMostCommon(arr: string[]): string {
 
   return Object.entries(counts).sort(([, a], [, b]) => b - a)[0]?.[0] || 'mixed';
 }
+
+/**
+ * Get up to limit items from an array, most frequent first
+ */
+function getTopItems(arr: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  arr.forEach((item) => counts.set(item, (counts.get(item) || 0) + 1));
+
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([item]) => item);
+}
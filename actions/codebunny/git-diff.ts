@@ -0,0 +1,104 @@
+import { execFile } from 'child_process';
+import { PRFile } from './types';
+
+/**
+ * Run a git command and return its stdout
+ * Uses execFile so refs and paths are never interpreted by a shell
+ */
+export function runGit(args: string[], cwd: string = process.cwd()): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, maxBuffer: 50 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`git ${args.join(' ')} failed: ${stderr.trim() || error.message}`));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Collect the files changed between two refs in the same shape GitHub returns for a PR
+ * Like a pull request, the diff is taken from the merge base of base and head
+ */
+export async function getLocalDiffFiles(
+  base: string,
+  head: string,
+  cwd: string = process.cwd()
+): Promise<PRFile[]> {
+  const diff = await runGit(
+    ['diff', '--no-color', '--no-ext-diff', '--unified=3', '-M', `${base}...${head}`],
+    cwd
+  );
+  return parseUnifiedDiff(diff);
+}
+
+/**
+ * Split `git diff` output into per-file patches
+ * Patches start at the first hunk header, matching the GitHub API's `patch` field
+ */
+export function parseUnifiedDiff(diff: string): PRFile[] {
+  const files: PRFile[] = [];
+  const sections = diff.split(/^(?=diff --git )/m).filter((s) => s.startsWith('diff --git '));
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const filename = getFilename(lines);
+
+    if (!filename) continue;
+
+    const hunkStart = lines.findIndex((line) => line.startsWith('@@'));
+    const patchLines = hunkStart === -1 ? [] : lines.slice(hunkStart);
+
+    // Drop the empty string left by the trailing newline
+    if (patchLines.length > 0 && patchLines[patchLines.length - 1] === '') {
+      patchLines.pop();
+    }
+
+    let additions = 0;
+    let deletions = 0;
+    for (const line of patchLines) {
+      if (line.startsWith('+')) additions++;
+      else if (line.startsWith('-')) deletions++;
+    }
+
+    files.push({
+      filename,
+      patch: patchLines.length > 0 ? patchLines.join('\n') : undefined,
+      additions,
+      deletions,
+    });
+  }
+
+  return files;
+}
+
+function getFilename(lines: string[]): string | null {
+  const newPath = lines.find((line) => line.startsWith('+++ '));
+  if (newPath && newPath !== '+++ /dev/null') {
+    return stripPrefix(newPath.slice(4));
+  }
+
+  const renameTo = lines.find((line) => line.startsWith('rename to '));
+  if (renameTo) {
+    return renameTo.slice('rename to '.length);
+  }
+
+  const oldPath = lines.find((line) => line.startsWith('--- '));
+  if (oldPath && oldPath !== '--- /dev/null') {
+    return stripPrefix(oldPath.slice(4));
+  }
+
+  // Binary or mode-only changes have no ---/+++ lines
+  const header = lines[0].match(/^diff --git a\/(.+) b\/(.+)$/);
+  return header ? header[2] : null;
+}
+
+function stripPrefix(filePath: string): string {
+  return filePath.replace(/\t.*$/, '').replace(/^[ab]\//, '');
+}
@@ -0,0 +1,149 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { generateKeyPairSync, verify } from 'crypto';
+import { createAppJwt, getAuthenticatedOctokit } from './github-app-auth';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+/**
+ * A local stand-in for the GitHub API: it checks the app JWT, hands out installation
+ * tokens and records the authorization header of every request
+ */
+interface FakeGitHub {
+  baseUrl: string;
+  requests: Array<{ method: string; url: string; authorization?: string }>;
+  tokensIssued: number;
+  /** Seconds until issued tokens expire */
+  tokenLifetime: number;
+}
+
+const github: FakeGitHub = { baseUrl: '', requests: [], tokensIssued: 0, tokenLifetime: 3600 };
+let server: Server;
+
+function verifyJwt(authorization: string | undefined): { iss: string; iat: number; exp: number } | null {
+  const match = authorization?.match(/^bearer (.+)$/i);
+  if (!match) return null;
+  const [header, payload, signature] = match[1].split('.');
+  const valid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  return valid ? JSON.parse(Buffer.from(payload, 'base64url').toString()) : null;
+}
+
+function handle(req: IncomingMessage): { status: number; body: unknown } {
+  const authorization = req.headers.authorization;
+  github.requests.push({ method: req.method || '', url: req.url || '', authorization });
+
+  if (req.method === 'GET' && req.url === '/repos/acme/widgets/installation') {
+    return verifyJwt(authorization)?.iss === '1234'
+      ? { status: 200, body: { id: 42 } }
+      : { status: 401, body: { message: 'Bad credentials' } };
+  }
+
+  if (req.method === 'POST' && req.url === '/app/installations/42/access_tokens') {
+    if (verifyJwt(authorization)?.iss !== '1234') {
+      return { status: 401, body: { message: 'Bad credentials' } };
+    }
+    github.tokensIssued++;
+    const expiresAt = new Date(Date.now() + github.tokenLifetime * 1000).toISOString();
+    return { status: 201, body: { token: `ghs_token${github.tokensIssued}`, expires_at: expiresAt } };
+  }
+
+  if (req.method === 'GET' && req.url === '/repos/acme/widgets/pulls/7') {
+    return authorization?.startsWith('token ghs_')
+      ? { status: 200, body: { number: 7 } }
+      : { status: 401, body: { message: 'Requires authentication' } };
+  }
+
+  return { status: 404, body: { message: 'Not Found' } };
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const { status, body } = handle(req);
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  github.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('createAppJwt signs a backdated RS256 token for the app', () => {
+  const now = Date.UTC(2024, 0, 1);
+  const claims = verifyJwt(`Bearer ${createAppJwt('1234', privateKey, now)}`);
+
+  assert.deepEqual(claims, { iat: now / 1000 - 60, exp: now / 1000 + 540, iss: '1234' });
+});
+
+test('createAppJwt accepts keys with literal \\n sequences', () => {
+  const escaped = privateKey.replace(/\n/g, '\\n');
+  assert.equal(verifyJwt(`Bearer ${createAppJwt('1234', escaped)}`)?.iss, '1234');
+});
+
+test('app credentials are exchanged for an installation token used on every request', async () => {
+  github.requests = [];
+  github.tokensIssued = 0;
+  github.tokenLifetime = 3600;
+
+  const octokit = await getAuthenticatedOctokit(undefined, {
+    app: { appId: '1234', privateKey },
+    owner: 'acme',
+    repo: 'widgets',
+    baseUrl: github.baseUrl,
+  });
+  const { data } = await octokit.rest.pulls.get({ owner: 'acme', repo: 'widgets', pull_number: 7 });
+
+  assert.equal(data.number, 7);
+  assert.equal(github.tokensIssued, 1);
+  assert.deepEqual(
+    github.requests.map((r) => `${r.method} ${r.url}`),
+    ['GET /repos/acme/widgets/installation', 'POST /app/installations/42/access_tokens', 'GET /repos/acme/widgets/pulls/7']
+  );
+  assert.equal(github.requests[2].authorization, 'token ghs_token1');
+});
+
+test('tokens about to expire are refreshed before the next request', async () => {
+  github.requests = [];
+  github.tokensIssued = 0;
+  // Inside the five minute refresh margin, so every request needs a new token
+  github.tokenLifetime = 60;
+
+  const octokit = await getAuthenticatedOctokit(undefined, {
+    app: { appId: '1234', privateKey, installationId: 42 },
+    owner: 'acme',
+    repo: 'widgets',
+    baseUrl: github.baseUrl,
+  });
+  await octokit.rest.pulls.get({ owner: 'acme', repo: 'widgets', pull_number: 7 });
+
+  assert.equal(github.tokensIssued, 2);
+  assert.equal(github.requests[github.requests.length - 1].authorization, 'token ghs_token2');
+});
+
+test('a wrong app ID fails with the installation error', async () => {
+  await assert.rejects(
+    getAuthenticatedOctokit(undefined, {
+      app: { appId: '999', privateKey },
+      owner: 'acme',
+      repo: 'widgets',
+      baseUrl: github.baseUrl,
+    }),
+    /GitHub App 999 is not installed on acme\/widgets/
+  );
+});
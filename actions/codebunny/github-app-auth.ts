@@ -1,19 +1,167 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import { GitHub } from '@actions/github/lib/utils';
+import { EndpointOptions, RequestInterface, RequestParameters, Route } from '@octokit/types';
+import { createSign } from 'crypto';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface GitHubAppCredentials {
+  appId: string;
+  privateKey: string;
+  installationId?: number;
+}
+
+export interface AuthOptions {
+  app?: GitHubAppCredentials;
+  owner?: string;
+  repo?: string;
+  baseUrl?: string;
+}
+
+// Refresh installation tokens this long before GitHub expires them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Read GitHub App credentials from action inputs or environment
+ * Returns undefined when either the app ID or private key is missing
+ */
+export function getAppCredentials(): GitHubAppCredentials | undefined {
+  const appId = process.env.INPUT_APP_ID || core.getInput('app-id') || process.env.APP_ID || '';
+  const privateKey =
+    process.env.INPUT_APP_PRIVATE_KEY ||
+    core.getInput('app-private-key') ||
+    process.env.APP_PRIVATE_KEY ||
+    '';
+
+  if (!appId || !privateKey) {
+    if (appId || privateKey) {
+      core.warning('Both app-id and app-private-key are required for GitHub App authentication');
+    }
+    return undefined;
+  }
+
+  const installationId = Number(process.env.APP_INSTALLATION_ID) || undefined;
+
+  return { appId: appId.trim(), privateKey, installationId };
+}
+
+/**
+ * Create a signed JWT identifying the GitHub App
+ * Valid for 9 minutes, backdated 60 seconds to allow for clock drift
+ */
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const payload = { iat: issuedAt, exp: issuedAt + 10 * 60, iss: appId };
+
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(normalizePrivateKey(privateKey));
+
+  return `${unsigned}.${base64Url(signature)}`;
+}
+
+/**
+ * Mints installation access tokens and refreshes them before they expire
+ */
+export class InstallationTokenProvider {
+  private token?: string;
+  private expiresAt = 0;
+  private pending?: Promise<string>;
+
+  constructor(
+    private credentials: GitHubAppCredentials,
+    private owner: string,
+    private repo: string,
+    private baseUrl?: string
+  ) {}
+
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return this.token;
+    }
+
+    // Share a single refresh between concurrent requests
+    if (!this.pending) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    return this.pending;
+  }
+
+  private async refresh(): Promise<string> {
+    const appClient = github.getOctokit(
+      createAppJwt(this.credentials.appId, this.credentials.privateKey),
+      this.baseUrl ? { baseUrl: this.baseUrl } : {}
+    );
+
+    let installationId = this.credentials.installationId;
+
+    if (!installationId) {
+      try {
+        const { data: installation } = await appClient.rest.apps.getRepoInstallation({
+          owner: this.owner,
+          repo: this.repo,
+        });
+        installationId = installation.id;
+        this.credentials.installationId = installationId;
+        core.info(`Found GitHub App installation ${installationId} for ${this.owner}/${this.repo}`);
+      } catch (error) {
+        throw new Error(
+          `GitHub App ${this.credentials.appId} is not installed on ${this.owner}/${this.repo}: ${error}`
+        );
+      }
+    }
+
+    const { data } = await appClient.rest.apps.createInstallationAccessToken({
+      installation_id: installationId,
+    });
+
+    this.token = data.token;
+    this.expiresAt = new Date(data.expires_at).getTime();
+    core.setSecret(data.token);
+    core.info(`Minted installation token (expires ${data.expires_at})`);
+
+    return data.token;
+  }
+}
 
 /**
  * Get authenticated Octokit instance
- * Falls back to GITHUB_TOKEN if no token is provided
+ * Uses GitHub App installation tokens when app credentials are configured,
+ * otherwise falls back to the provided token or GITHUB_TOKEN
  */
 export async function getAuthenticatedOctokit(
-  githubToken?: string
-): Promise<ReturnType<typeof github.getOctokit>> {
+  githubToken?: string,
+  options: AuthOptions = {}
+): Promise<Octokit> {
+  const baseUrl = options.baseUrl || process.env.GITHUB_API_URL;
+
+  if (options.app) {
+    const owner = options.owner || github.context.repo.owner;
+    const repo = options.repo || github.context.repo.repo;
+
+    core.info(`Using GitHub App ${options.app.appId} for API calls`);
+    const provider = new InstallationTokenProvider(options.app, owner, repo, baseUrl);
+
+    // Mint the first token eagerly so misconfiguration fails fast
+    await provider.getToken();
+
+    return new GitHub({
+      ...(baseUrl ? { baseUrl } : {}),
+      authStrategy: createInstallationAuth,
+      auth: { provider },
+    });
+  }
+
   // Use provided token or fall back to GITHUB_TOKEN
   const token = githubToken || process.env.GITHUB_TOKEN || '';
-  
+
   if (!token) {
     throw new Error(
-      'GitHub token is required. Either provide github-token input or ensure GITHUB_TOKEN is available'
+      'GitHub token is required. Either provide github-token input, configure app-id and app-private-key, or ensure GITHUB_TOKEN is available'
     );
   }
 
@@ -23,5 +171,40 @@ export async function getAuthenticatedOctokit(
     core.info('Using default GITHUB_TOKEN for API calls');
   }
 
-  return github.getOctokit(token);
+  return github.getOctokit(token, baseUrl ? { baseUrl } : {});
+}
+
+/**
+ * Octokit auth strategy that attaches a fresh installation token to every request
+ */
+function createInstallationAuth({ provider }: { provider: InstallationTokenProvider }) {
+  const auth = async () => ({
+    type: 'token',
+    tokenType: 'installation',
+    token: await provider.getToken(),
+  });
+
+  return Object.assign(auth, {
+    hook: async (request: RequestInterface, route: Route | EndpointOptions, parameters?: RequestParameters) => {
+      // Same casts as @octokit/auth-token: merge accepts either form of route at runtime
+      const endpoint = request.endpoint.merge(route as string, parameters);
+      endpoint.headers.authorization = `token ${await provider.getToken()}`;
+      return request(endpoint as EndpointOptions);
+    },
+  });
+}
+
+/**
+ * Accept keys pasted with literal \n sequences (common in secrets and .env files)
+ */
+function normalizePrivateKey(privateKey: string): string {
+  return privateKey.includes('\\n') ? privateKey.replace(/\\n/g, '\n') : privateKey;
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
 }
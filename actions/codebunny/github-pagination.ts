@@ -0,0 +1,80 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { GetResponseDataTypeFromEndpointMethod, RequestInterface } from '@octokit/types';
+import { getConfig } from './codebunny-config';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** The item type of a list endpoint, e.g. an issue comment for issues.listComments */
+export type ListItem<M extends RequestInterface> = GetResponseDataTypeFromEndpointMethod<M> extends Array<infer T>
+  ? T
+  : never;
+
+// GitHub itself stops listing pull request files at 3000
+export const DEFAULT_MAX_LIST_ITEMS = 3000;
+
+/**
+ * Read the list cap from the max-list-items input, then limits.maxListItems, then the default
+ */
+export function getMaxListItems(): number {
+  const fallback = getConfig().limits.maxListItems ?? DEFAULT_MAX_LIST_ITEMS;
+  const raw = process.env.INPUT_MAX_LIST_ITEMS || core.getInput('max-list-items');
+  const value = parseInt(raw, 10);
+
+  if (raw && (!Number.isInteger(value) || value < 1)) {
+    core.warning(`Ignoring invalid max-list-items "${raw}", using ${fallback}`);
+    return fallback;
+  }
+
+  return value || fallback;
+}
+
+/**
+ * Fetch every page of a GitHub list endpoint, stopping at the configured cap
+ * Warns when the cap cuts the listing short so callers know results are incomplete
+ */
+export async function listAll<M extends RequestInterface>(
+  octokit: Octokit,
+  method: M,
+  params: Parameters<M>[0],
+  options: { label: string; maxItems?: number }
+): Promise<ListItem<M>[]> {
+  const maxItems = options.maxItems ?? getMaxListItems();
+  const items: ListItem<M>[] = [];
+
+  // Object.assign rather than a spread, which TypeScript rejects for generic parameter types
+  const pageParams = Object.assign({}, params, { per_page: 100 });
+
+  for await (const response of octokit.paginate.iterator(method, pageParams)) {
+    const page = response.data as ListItem<M>[];
+    const remaining = maxItems - items.length;
+
+    if (page.length > remaining) {
+      items.push(...page.slice(0, remaining));
+      warnCapReached(options.label, maxItems);
+      break;
+    }
+
+    items.push(...page);
+
+    if (items.length >= maxItems) {
+      if (hasNextPage(response.headers.link)) {
+        warnCapReached(options.label, maxItems);
+      }
+      break;
+    }
+  }
+
+  core.debug(`Listed ${items.length} ${options.label}`);
+  return items;
+}
+
+function hasNextPage(link?: string): boolean {
+  return !!link && /rel="next"/.test(link);
+}
+
+function warnCapReached(label: string, maxItems: number): void {
+  core.warning(
+    `Stopped listing ${label} at ${maxItems} items (max-list-items). Results may be incomplete.`
+  );
+}
@@ -0,0 +1,505 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import * as ts from 'typescript';
+import { hasModifier } from './ast-patterns';
+import { getConfig, getWorkspaceRoot } from './codebunny-config';
+
+/**
+ * One module importing another, with the exports it uses
+ * "default" is the default export and "*" means the whole module
+ */
+export interface ImportEdge {
+  importer: string;
+  specifier: string;
+  names: string[];
+}
+
+/**
+ * Who depends on a changed file, and what they use from it
+ */
+export interface ModuleImpact {
+  file: string;
+  /** The file was deleted in the PR but is still imported */
+  removed: boolean;
+  importers: ImportEdge[];
+  totalImporters: number;
+  /** Current signatures of the exports importers use, by export name */
+  signatures: Record<string, string>;
+  /** Exports importers use that the changed file no longer has */
+  missingExports: Array<{ name: string; importers: string[] }>;
+}
+
+interface PathAlias {
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  targets: string[];
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: any;
+}
+
+interface Resolver {
+  files: Set<string>;
+  aliases: PathAlias[];
+  baseUrl?: string;
+  packages: WorkspacePackage[];
+}
+
+const SOURCE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,mts,cts}';
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const IGNORED_DIRS = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/coverage/**', '**/.git/**', '**/*.d.ts'];
+const MAX_SIGNATURE_CHARS = 240;
+
+/**
+ * Find the modules that import each changed TS/JS file, following relative imports,
+ * tsconfig path aliases and workspace package exports
+ */
+export async function analyzeImpact(changedFiles: string[], root: string = getWorkspaceRoot()): Promise<ModuleImpact[]> {
+  const { graphFiles, impactImporters } = getConfig().limits;
+  const changedSources = changedFiles.filter((file) => SOURCE_EXTENSIONS.includes(path.extname(file)));
+  if (graphFiles === 0 || changedSources.length === 0) {
+    return [];
+  }
+
+  const importers = await buildImportGraph(changedSources, root);
+  const impacts: ModuleImpact[] = [];
+
+  for (const file of changedSources) {
+    const edges = (importers.get(file) || []).filter((edge) => !changedSources.includes(edge.importer));
+    if (edges.length === 0) continue;
+
+    const removed = !existsSync(path.join(root, file));
+    const exported = removed ? undefined : await readExports(path.join(root, file));
+    const used = Array.from(new Set(edges.flatMap((edge) => edge.names))).filter((name) => name !== '*');
+
+    const signatures: Record<string, string> = {};
+    const missingExports: ModuleImpact['missingExports'] = [];
+    for (const name of used) {
+      if (exported?.signatures.has(name)) {
+        const signature = exported.signatures.get(name);
+        if (signature) signatures[name] = signature;
+      } else if (removed || (exported && !exported.hasStarExport)) {
+        const users = edges.filter((edge) => edge.names.includes(name)).map((edge) => edge.importer);
+        missingExports.push({ name, importers: users });
+      }
+    }
+
+    impacts.push({
+      file,
+      removed,
+      importers: edges.slice(0, impactImporters),
+      totalImporters: edges.length,
+      signatures,
+      missingExports,
+    });
+  }
+
+  if (impacts.length > 0) {
+    const total = impacts.reduce((sum, impact) => sum + impact.totalImporters, 0);
+    core.info(`Impact analysis: ${impacts.length} changed modules are imported by ${total} other modules`);
+  }
+  return impacts;
+}
+
+/**
+ * Map each changed file to the edges that import it
+ * Every source file is scanned cheaply; only importers of changed files are fully parsed
+ */
+export async function buildImportGraph(
+  changedFiles: string[],
+  root: string = getWorkspaceRoot()
+): Promise<Map<string, ImportEdge[]>> {
+  const { graphFiles } = getConfig().limits;
+  let sources = (await glob(SOURCE_GLOB, { cwd: root, ignore: IGNORED_DIRS, posix: true })).sort();
+  if (sources.length > graphFiles) {
+    core.warning(`Import graph limited to ${graphFiles} of ${sources.length} source files (limits.graphFiles)`);
+    sources = sources.slice(0, graphFiles);
+  }
+
+  const resolver: Resolver = {
+    // Deleted files still count, so their remaining importers are found
+    files: new Set([...sources, ...changedFiles]),
+    packages: await loadWorkspacePackages(root),
+    ...loadPathAliases(root),
+  };
+  const changed = new Set(changedFiles);
+  const importers = new Map<string, ImportEdge[]>();
+
+  for (const importer of sources) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(root, importer), 'utf-8');
+    } catch (error) {
+      core.debug(`Failed to read ${importer} for the import graph: ${error}`);
+      continue;
+    }
+
+    const targets = new Map<string, string>();
+    for (const { fileName: specifier } of ts.preProcessFile(content, true, true).importedFiles) {
+      const target = resolveSpecifier(specifier, importer, resolver);
+      if (target && changed.has(target) && target !== importer) {
+        targets.set(specifier, target);
+      }
+    }
+    if (targets.size === 0) continue;
+
+    const source = ts.createSourceFile(importer, content, ts.ScriptTarget.Latest, true);
+    for (const [specifier, target] of targets) {
+      const edges = importers.get(target) || [];
+      edges.push({ importer, specifier, names: collectImportedNames(source, specifier) });
+      importers.set(target, edges);
+    }
+  }
+
+  return importers;
+}
+
+/**
+ * Resolve an import specifier to a repository file, relative to the root
+ */
+function resolveSpecifier(specifier: string, importer: string, resolver: Resolver): string | undefined {
+  if (specifier.startsWith('.')) {
+    return resolveFile(path.posix.join(path.posix.dirname(importer), specifier), resolver);
+  }
+
+  for (const alias of resolver.aliases) {
+    const match = matchAlias(alias, specifier);
+    if (match === undefined) continue;
+    for (const target of alias.targets) {
+      const resolved = resolveFile(target.replace('*', match), resolver);
+      if (resolved) return resolved;
+    }
+  }
+
+  const pkg = resolver.packages.find((p) => specifier === p.name || specifier.startsWith(`${p.name}/`));
+  if (pkg) {
+    return resolvePackageImport(pkg, specifier.slice(pkg.name.length), resolver);
+  }
+
+  if (resolver.baseUrl) {
+    return resolveFile(path.posix.join(resolver.baseUrl, specifier), resolver);
+  }
+  return undefined;
+}
+
+/**
+ * Try a path as written, with source extensions, as a directory index, and with a
+ * compiled extension swapped for its source (ESM TypeScript imports "./x.js" for x.ts)
+ */
+function resolveFile(candidate: string, resolver: Resolver): string | undefined {
+  const base = path.posix.normalize(candidate).replace(/^\.\//, '');
+  const withoutJs = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map((ext) => `${base}${ext}`),
+    ...SOURCE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ...(withoutJs !== base ? SOURCE_EXTENSIONS.map((ext) => `${withoutJs}${ext}`) : []),
+  ];
+  return candidates.find((file) => resolver.files.has(file));
+}
+
+/**
+ * Resolve "@scope/pkg/sub" through the package's exports map, falling back to main and
+ * plain subpaths; built targets like dist/index.js are mapped back to src/index.ts
+ */
+function resolvePackageImport(pkg: WorkspacePackage, subpath: string, resolver: Resolver): string | undefined {
+  const key = subpath ? `.${subpath}` : '.';
+  const { exports, main, module, types, source } = pkg.manifest;
+
+  const targets: string[] = [];
+  if (exports !== undefined) {
+    const target = resolveExportsField(exports, key);
+    if (target) targets.push(target);
+  } else if (key === '.') {
+    targets.push(...[source, module, main, types, 'index', 'src/index'].filter((t) => typeof t === 'string'));
+  } else {
+    targets.push(key, `src/${key}`);
+  }
+
+  for (const target of targets) {
+    const relative = target.replace(/^\.\//, '');
+    const variants = [relative, relative.replace(/\.d\.ts$/, ''), relative.replace(/^(dist|build|lib|out)\//, 'src/')];
+    for (const variant of variants) {
+      const resolved = resolveFile(path.posix.join(pkg.dir, variant.replace(/\.d\.ts$/, '')), resolver);
+      if (resolved) return resolved;
+    }
+  }
+  return undefined;
+}
+
+function resolveExportsField(exports: any, key: string): string | undefined {
+  // "exports": "./index.js" or { "import": ..., "require": ... } describe only the root
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return key === '.' ? pickCondition(exports) : undefined;
+  }
+  if (!exports || typeof exports !== 'object') return undefined;
+  if (!Object.keys(exports).some((k) => k.startsWith('.'))) {
+    return key === '.' ? pickCondition(exports) : undefined;
+  }
+
+  if (key in exports) return pickCondition(exports[key]);
+  for (const [pattern, value] of Object.entries(exports)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) continue;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+      const target = pickCondition(value);
+      return target?.replace('*', key.slice(prefix.length, key.length - suffix.length));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pick a conditional export target, preferring source over types over built code
+ */
+function pickCondition(value: any): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(pickCondition).find(Boolean);
+  if (!value || typeof value !== 'object') return undefined;
+
+  for (const condition of ['source', 'types', 'import', 'module', 'require', 'node', 'default']) {
+    const target = pickCondition(value[condition]);
+    if (target) return target;
+  }
+  return undefined;
+}
+
+function matchAlias(alias: PathAlias, specifier: string): string | undefined {
+  if (!alias.wildcard) {
+    return specifier === alias.prefix ? '' : undefined;
+  }
+  if (specifier.startsWith(alias.prefix) && specifier.endsWith(alias.suffix)) {
+    return specifier.slice(alias.prefix.length, specifier.length - alias.suffix.length);
+  }
+  return undefined;
+}
+
+/**
+ * Read compilerOptions.paths and baseUrl from the root tsconfig.json or jsconfig.json,
+ * following "extends"
+ */
+function loadPathAliases(root: string): { aliases: PathAlias[]; baseUrl?: string } {
+  const configPath = ['tsconfig.json', 'jsconfig.json'].map((f) => path.join(root, f)).find((f) => existsSync(f));
+  if (!configPath) return { aliases: [] };
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    core.debug(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    return { aliases: [] };
+  }
+
+  // An empty readDirectory keeps the parser from listing every file the config includes
+  const host = { ...ts.sys, readDirectory: () => [] };
+  const { options } = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath));
+  const toRelative = (dir: string) => path.relative(root, dir).split(path.sep).join('/') || '.';
+  const pathsBase = options.baseUrl || (options.pathsBasePath as string | undefined) || root;
+
+  const aliases = Object.entries(options.paths || {}).map(([pattern, targets]) => {
+    const star = pattern.indexOf('*');
+    return {
+      prefix: star === -1 ? pattern : pattern.slice(0, star),
+      suffix: star === -1 ? '' : pattern.slice(star + 1),
+      wildcard: star !== -1,
+      targets: targets.map((target) => path.posix.join(toRelative(pathsBase), target)),
+    };
+  });
+
+  return { aliases, baseUrl: options.baseUrl ? toRelative(options.baseUrl) : undefined };
+}
+
+/**
+ * Named packages in the repository, so imports of "@org/utils" resolve to its source
+ */
+async function loadWorkspacePackages(root: string): Promise<WorkspacePackage[]> {
+  const manifests = await glob('**/package.json', { cwd: root, ignore: IGNORED_DIRS, posix: true });
+  const packages: WorkspacePackage[] = [];
+
+  for (const manifestPath of manifests) {
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(root, manifestPath), 'utf-8'));
+      if (typeof manifest.name === 'string') {
+        packages.push({ name: manifest.name, dir: path.posix.dirname(manifestPath), manifest });
+      }
+    } catch (error) {
+      core.debug(`Failed to read ${manifestPath}: ${error}`);
+    }
+  }
+
+  // Longest names first so "@org/ui-kit" is not matched as "@org/ui"
+  return packages.sort((a, b) => b.name.length - a.name.length);
+}
+
+/**
+ * The exports a module takes from one specifier: named and default imports, members
+ * used through a namespace import or require(), and re-exports
+ */
+function collectImportedNames(source: ts.SourceFile, specifier: string): string[] {
+  const names = new Set<string>();
+  const namespaces = new Set<string>();
+
+  const isSpecifier = (node: ts.Node | undefined) => !!node && ts.isStringLiteralLike(node) && node.text === specifier;
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && isSpecifier(node.moduleSpecifier)) {
+      const clause = node.importClause;
+      if (clause?.name) names.add('default');
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) namespaces.add(bindings.name.text);
+      if (bindings && ts.isNamedImports(bindings)) {
+        bindings.elements.forEach((e) => names.add((e.propertyName || e.name).text));
+      }
+    } else if (ts.isExportDeclaration(node) && isSpecifier(node.moduleSpecifier)) {
+      if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+        node.exportClause.elements.forEach((e) => names.add((e.propertyName || e.name).text));
+      } else {
+        names.add('*');
+      }
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      const reference = node.moduleReference;
+      if (ts.isExternalModuleReference(reference) && isSpecifier(reference.expression)) {
+        namespaces.add(node.name.text);
+      }
+    } else if (ts.isVariableDeclaration(node) && node.initializer && isRequireOf(node.initializer, specifier)) {
+      if (ts.isObjectBindingPattern(node.name)) {
+        node.name.elements.forEach((e) => {
+          const name = e.propertyName || e.name;
+          if (ts.isIdentifier(name)) names.add(name.text);
+        });
+      } else if (ts.isIdentifier(node.name)) {
+        namespaces.add(node.name.text);
+      }
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      if (isSpecifier(node.arguments[0])) names.add('*');
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  if (namespaces.size > 0) {
+    const members = new Set<string>();
+    const findMembers = (node: ts.Node): void => {
+      if (
+        ts.isPropertyAccessExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        namespaces.has(node.expression.text)
+      ) {
+        members.add(node.name.text);
+      }
+      ts.forEachChild(node, findMembers);
+    };
+    findMembers(source);
+    if (members.size > 0) members.forEach((member) => names.add(member));
+    else names.add('*');
+  }
+
+  return Array.from(names);
+}
+
+function isRequireOf(node: ts.Expression, specifier: string): boolean {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === 'require' &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteralLike(node.arguments[0]) &&
+    node.arguments[0].text === specifier
+  );
+}
+
+/**
+ * The names a module exports with a one-line signature for each
+ * Re-exported names have an empty signature; export * makes the list open-ended
+ */
+async function readExports(filepath: string): Promise<{ signatures: Map<string, string>; hasStarExport: boolean }> {
+  const signatures = new Map<string, string>();
+  let hasStarExport = false;
+
+  let content: string;
+  try {
+    content = await fs.readFile(filepath, 'utf-8');
+  } catch {
+    return { signatures, hasStarExport: true };
+  }
+
+  const source = ts.createSourceFile(filepath, content, ts.ScriptTarget.Latest, true);
+  const local = new Map<string, string>();
+
+  for (const statement of source.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    for (const [name, signature] of describeDeclaration(statement, content)) {
+      local.set(name, signature);
+      if (exported) signatures.set(isDefault ? 'default' : name, signature);
+    }
+
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const target = ts.isIdentifier(statement.expression) ? local.get(statement.expression.text) : undefined;
+      signatures.set('default', target || formatSignature(statement.expression.getText()));
+    } else if (ts.isExportDeclaration(statement)) {
+      if (!statement.exportClause) {
+        hasStarExport = true;
+      } else if (ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          const localName = (element.propertyName || element.name).text;
+          const signature = statement.moduleSpecifier ? '' : local.get(localName) || '';
+          signatures.set(element.name.text, signature);
+        }
+      } else {
+        signatures.set(statement.exportClause.name.text, '');
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      // export = makes every member reachable
+      hasStarExport = true;
+    }
+  }
+
+  return { signatures, hasStarExport };
+}
+
+function describeDeclaration(statement: ts.Statement, content: string): Array<[string, string]> {
+  const header = (node: ts.Node, end: number | undefined) =>
+    formatSignature(content.slice(node.getStart(), end ?? node.end));
+
+  if (ts.isFunctionDeclaration(statement) && statement.name) {
+    return [[statement.name.text, header(statement, statement.body?.getStart())]];
+  }
+  if (ts.isClassDeclaration(statement) && statement.name) {
+    const constructor = statement.members.find(ts.isConstructorDeclaration);
+    const ctor = constructor ? ` { ${header(constructor, constructor.body?.getStart())} }` : '';
+    return [[statement.name.text, `${header(statement, statement.members.pos)}${ctor}`]];
+  }
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return [[statement.name.text, header(statement, undefined)]];
+  }
+  if (ts.isVariableStatement(statement)) {
+    const keyword = statement.declarationList.getFirstToken()?.getText() || 'const';
+    return statement.declarationList.declarations
+      .filter((d) => ts.isIdentifier(d.name))
+      .map((d) => {
+        const init = d.initializer;
+        if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+          return [d.name.getText(), `${keyword} ${header(d, init.body.getStart())}`];
+        }
+        return [d.name.getText(), `${keyword} ${d.name.getText()}${d.type ? `: ${d.type.getText()}` : ''}`];
+      });
+  }
+  return [];
+}
+
+function formatSignature(text: string): string {
+  const signature = text
+    .replace(/\s+/g, ' ')
+    .replace(/^export\s+(default\s+)?/, '')
+    .replace(/\s*(=>|\{)?\s*$/, '');
+  return signature.length > MAX_SIGNATURE_CHARS ? `${signature.slice(0, MAX_SIGNATURE_CHARS)}…` : signature;
+}
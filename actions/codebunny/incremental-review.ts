@@ -0,0 +1,246 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getConfig } from './codebunny-config';
+import { listAll } from './github-pagination';
+import { ReviewFinding, StructuredReview } from './review-schema';
+import { IncrementalContext, PRFile } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface ReviewState {
+  headSha: string;
+  findings: ReviewFinding[];
+  ignored: string[];
+}
+
+export interface PreviousReview {
+  commentId: number;
+  body: string;
+  state: ReviewState;
+}
+
+export interface IncrementalScope extends IncrementalContext {
+  files: PRFile[];
+}
+
+const STATE_PATTERN = /<!-- codebunny-state ([A-Za-z0-9+/=]+) -->/;
+
+// Keeps the hidden state well inside GitHub's 65536 character comment limit
+const MAX_STATE_CHARS = 30000;
+
+// The compare API stops listing files at 300
+const MAX_COMPARE_FILES = 300;
+
+/**
+ * Read the incremental-review input, then review.incremental (enabled unless set to false)
+ */
+export function isIncrementalReviewEnabled(): boolean {
+  const raw = process.env.INPUT_INCREMENTAL_REVIEW || core.getInput('incremental-review');
+  if (!raw) {
+    return getConfig().review.incremental ?? true;
+  }
+  return raw.trim().toLowerCase() !== 'false';
+}
+
+/**
+ * Encode the reviewed head SHA and findings as a hidden marker for the sticky comment
+ * Base64 keeps finding text from closing the HTML comment early
+ */
+export function renderReviewState(state: ReviewState): string {
+  const { headSha, ignored } = state;
+  const findings = state.findings.map(({ suggestion, ...finding }) => finding);
+  let encoded = Buffer.from(JSON.stringify({ headSha, findings, ignored })).toString('base64');
+
+  if (encoded.length > MAX_STATE_CHARS) {
+    core.warning('Review findings are too large to store; the next review cannot carry them forward');
+    encoded = Buffer.from(JSON.stringify({ headSha, findings: [], ignored })).toString('base64');
+  }
+
+  return `<!-- codebunny-state ${encoded} -->`;
+}
+
+/**
+ * Decode the hidden review state from a comment body
+ */
+export function parseReviewState(body: string): ReviewState | null {
+  const match = body.match(STATE_PATTERN);
+  if (!match) return null;
+
+  try {
+    const state = JSON.parse(Buffer.from(match[1], 'base64').toString('utf-8'));
+    if (typeof state.headSha !== 'string' || !/^[0-9a-f]{7,40}$/i.test(state.headSha)) {
+      return null;
+    }
+    return {
+      headSha: state.headSha,
+      findings: Array.isArray(state.findings) ? state.findings : [],
+      ignored: Array.isArray(state.ignored) ? state.ignored.filter((k: unknown) => typeof k === 'string') : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the state recorded by the most recently updated CodeBunny comment on the PR
+ * Only bot comments are trusted so a pasted marker cannot steer the review
+ */
+export async function findPreviousReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<PreviousReview | null> {
+  try {
+    const comments = await listAll(
+      octokit,
+      octokit.rest.issues.listComments,
+      { owner, repo, issue_number: prNumber },
+      { label: 'PR comments' }
+    );
+
+    const candidates = comments
+      .filter((c) => c.user?.type === 'Bot' && c.body && STATE_PATTERN.test(c.body))
+      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+
+    for (const comment of candidates) {
+      const state = parseReviewState(comment.body!);
+      if (state) {
+        core.info(`Found previous review of ${state.headSha.slice(0, 7)} in comment ${comment.id}`);
+        return { commentId: comment.id, body: comment.body!, state };
+      }
+    }
+  } catch (error) {
+    core.warning(`Failed to look up the previous review: ${error}`);
+  }
+
+  return null;
+}
+
+/**
+ * Work out which PR changes are new since the previously reviewed head
+ * Returns null when a full review is needed: same head, rewritten history, or a comparison GitHub cannot list completely
+ */
+export async function planIncrementalReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  state: ReviewState,
+  headSha: string,
+  prFiles: PRFile[]
+): Promise<IncrementalScope | null> {
+  if (state.headSha === headSha) {
+    core.info('Head has not changed since the last review, running a full review');
+    return null;
+  }
+
+  try {
+    const { data: comparison } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${state.headSha}...${headSha}`,
+    });
+
+    if (comparison.status !== 'ahead') {
+      core.info(
+        `Head is ${comparison.status} of the last reviewed commit (history was rewritten), running a full review`
+      );
+      return null;
+    }
+
+    const changed = comparison.files || [];
+    if (changed.length >= MAX_COMPARE_FILES) {
+      core.info(`${changed.length}+ files changed since the last review, running a full review`);
+      return null;
+    }
+
+    // Changes merged in from the base branch are not part of the PR diff, so only PR files count
+    const prFileNames = new Set(prFiles.map((f) => f.filename));
+    const files = changed
+      .filter((f) => prFileNames.has(f.filename))
+      .map((f) => ({
+        filename: f.filename,
+        patch: f.patch || '',
+        additions: f.additions,
+        deletions: f.deletions,
+      }));
+
+    core.info(
+      `Incremental review: ${files.length} files changed in ${comparison.total_commits} commits since ${state.headSha.slice(0, 7)}`
+    );
+
+    return {
+      baseSha: state.headSha,
+      headSha,
+      files,
+      previousFindings: state.findings,
+    };
+  } catch (error) {
+    core.warning(`Failed to compare with the last reviewed commit, running a full review: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Replace the state stored in a previous review comment, keeping the rest of its body
+ */
+export async function updateReviewState(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  previous: PreviousReview,
+  state: ReviewState
+): Promise<void> {
+  await octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    comment_id: previous.commentId,
+    body: previous.body.replace(STATE_PATTERN, renderReviewState(state)),
+  });
+}
+
+/**
+ * Key for a finding: its file, line and normalized title
+ * The line keeps findings that share a title apart, such as every violation of a rule check
+ */
+export function getFindingKey(finding: ReviewFinding): string {
+  const title = finding.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return `${finding.file || ''}:${finding.line}::${title}`;
+}
+
+/**
+ * Drop findings that were dismissed with @codebunny ignore
+ */
+export function removeIgnoredFindings(review: StructuredReview, ignored: string[]): StructuredReview {
+  if (ignored.length === 0) {
+    return review;
+  }
+
+  const keys = new Set(ignored);
+  const findings = review.findings.filter((finding) => !keys.has(getFindingKey(finding)));
+  if (findings.length < review.findings.length) {
+    core.info(`Left out ${review.findings.length - findings.length} ignored findings`);
+  }
+  return { ...review, findings };
+}
+
+/**
+ * Add previous findings on files untouched since the last review to the new review
+ * Findings on changed files were shown to the model, which reports them again if they still apply
+ */
+export function carryForwardFindings(review: StructuredReview, scope: IncrementalScope): StructuredReview {
+  const touched = new Set(scope.files.map((f) => f.filename));
+  const carried = scope.previousFindings
+    .filter((f) => f.file && !touched.has(f.file))
+    .map((f) => ({ ...f, carriedOver: true }));
+
+  if (carried.length > 0) {
+    core.info(`Carrying forward ${carried.length} open findings from the previous review`);
+  }
+
+  return {
+    ...review,
+    findings: [...review.findings, ...carried],
+    coverage: review.coverage ? { ...review.coverage, sinceSha: scope.baseSha } : undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { planInlineReview } from './inline-review';
+import { ReviewFinding, StructuredReview } from './review-schema';
+
+const patch = '@@ -1,2 +1,3 @@\n const a = 1;\n+const b = 2;\n const c = 3;';
+
+function finding(title: string, line: number): ReviewFinding {
+  return { title, priority: 'medium', category: 'other', file: 'src/a.ts', line, problem: 'p', fix: 'f' };
+}
+
+test('findings of the previous review are not posted inline again', () => {
+  const review: StructuredReview = {
+    recommendation: 'MERGE_AFTER_CHANGES',
+    summary: 's',
+    findings: [finding('Unused variable', 2), finding('Magic number', 3)],
+    recommendations: [],
+  };
+
+  const plan = planInlineReview(review, [{ filename: 'src/a.ts', patch, additions: 1, deletions: 0 }], [
+    finding('Unused variable', 2),
+  ]);
+
+  assert.deepEqual(plan.comments.map((c) => c.line), [3]);
+  assert.equal(plan.unmapped.length, 0);
+  assert.match(plan.summary, /2 findings were posted as inline comments/);
+});
+
+test('a finding with the title of a posted one is still posted on another line', () => {
+  const review: StructuredReview = {
+    recommendation: 'MERGE_AFTER_CHANGES',
+    summary: 's',
+    findings: [finding('Avoid console.log', 2), finding('Avoid console.log', 3)],
+    recommendations: [],
+  };
+
+  const plan = planInlineReview(review, [{ filename: 'src/a.ts', patch, additions: 1, deletions: 0 }], [
+    finding('Avoid console.log', 2),
+  ]);
+
+  assert.deepEqual(plan.comments.map((c) => c.line), [3]);
+  assert.match(plan.summary, /2 findings were posted as inline comments/);
+});
+
+test('findings outside the diff stay in the summary', () => {
+  const review: StructuredReview = {
+    recommendation: 'MERGE',
+    summary: 's',
+    findings: [finding('Far away', 40)],
+    recommendations: [],
+  };
+
+  const plan = planInlineReview(review, [{ filename: 'src/a.ts', patch, additions: 1, deletions: 0 }]);
+
+  assert.equal(plan.comments.length, 0);
+  assert.deepEqual(plan.unmapped, review.findings);
+});
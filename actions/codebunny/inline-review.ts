@@ -0,0 +1,266 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getFindingKey } from './incremental-review';
+import {
+  ReviewFinding,
+  StructuredReview,
+  SuggestedChange,
+  renderFindingDetails,
+  renderReviewMarkdown,
+} from './review-schema';
+import { PRFile } from './types';
+
+export interface InlineComment {
+  path: string;
+  line: number;
+  start_line?: number;
+  side: 'RIGHT';
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+export interface InlineReviewPlan {
+  comments: InlineComment[];
+  unmapped: ReviewFinding[];
+  summary: string;
+}
+
+// Marks inline comments as CodeBunny findings so replies to them can be answered
+export const FINDING_MARKER = '<!-- codebunny-finding -->';
+
+const PRIORITY_BADGES: Record<string, string> = {
+  high: '🔴 High',
+  medium: '🟡 Medium',
+  low: '🟢 Low',
+};
+
+/**
+ * Collect the new-file lines (number → content) that appear in a unified diff patch
+ * GitHub only accepts review comments on lines inside a hunk
+ */
+export function parseDiffLines(patch: string): Map<number, string> {
+  const lines = new Map<number, string>();
+  let rightLine = 0;
+  let inHunk = false;
+
+  for (const line of patch.split('\n')) {
+    const hunkHeader = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkHeader) {
+      rightLine = parseInt(hunkHeader[1], 10);
+      inHunk = true;
+      continue;
+    }
+
+    if (!inHunk || line.startsWith('\\')) continue;
+
+    if (line.startsWith('-')) continue;
+
+    // Added and context lines both exist on the right side of the diff
+    lines.set(rightLine, line.slice(1));
+    rightLine++;
+  }
+
+  return lines;
+}
+
+/**
+ * Map review findings onto the PR diff and rebuild the summary with only the leftovers
+ * Findings of the previous review that land on the diff already have a thread, so they are not posted again
+ */
+export function planInlineReview(
+  review: StructuredReview,
+  files: PRFile[],
+  previousFindings: ReviewFinding[] = []
+): InlineReviewPlan {
+  if (review.findings.length === 0) {
+    return { comments: [], unmapped: [], summary: renderReviewMarkdown(review) };
+  }
+
+  const diffLines = new Map<string, Map<number, string>>();
+  for (const file of files) {
+    if (file.patch) {
+      diffLines.set(file.filename, parseDiffLines(file.patch));
+    }
+  }
+
+  const posted = new Set(previousFindings.map(getFindingKey));
+  const comments: InlineComment[] = [];
+  const unmapped: ReviewFinding[] = [];
+  let alreadyPosted = 0;
+
+  for (const finding of review.findings) {
+    const comment = toInlineComment(finding, diffLines);
+    if (!comment) {
+      unmapped.push(finding);
+    } else if (posted.has(getFindingKey(finding))) {
+      alreadyPosted++;
+    } else {
+      comments.push(comment);
+    }
+  }
+
+  if (alreadyPosted > 0) {
+    core.info(`${alreadyPosted} findings are already posted inline from the previous review`);
+  }
+
+  return {
+    comments,
+    unmapped,
+    summary: renderReviewMarkdown(review, { findings: unmapped, inlineCount: comments.length + alreadyPosted }),
+  };
+}
+
+/**
+ * Post all inline comments as a single pull request review
+ * Returns false if GitHub rejected the review so callers can fall back
+ */
+export async function postInlineReview(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  commitId: string,
+  comments: InlineComment[]
+): Promise<boolean> {
+  if (comments.length === 0) {
+    return false;
+  }
+
+  try {
+    const { data: review } = await octokit.rest.pulls.createReview({
+      owner,
+      repo,
+      pull_number: prNumber,
+      commit_id: commitId,
+      event: 'COMMENT',
+      body: `🐰 CodeBunny left ${comments.length} inline comment${comments.length !== 1 ? 's' : ''}. See the summary comment for the overall recommendation.`,
+      comments,
+    });
+    core.info(`✅ Posted review ${review.id} with ${comments.length} inline comments`);
+    return true;
+  } catch (error) {
+    core.warning(`Failed to post inline review comments: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Resolve a finding's file and line against the diff
+ */
+function toInlineComment(
+  finding: ReviewFinding,
+  diffLines: Map<string, Map<number, string>>
+): InlineComment | null {
+  if (!finding.file || !(finding.line || finding.suggestion)) {
+    return null;
+  }
+
+  const path = resolveFilePath(finding.file, Array.from(diffLines.keys()));
+  if (!path) {
+    return null;
+  }
+
+  const lines = diffLines.get(path)!;
+
+  // A verified suggestion anchors the comment to the range it replaces
+  if (finding.suggestion) {
+    if (isApplicableSuggestion(finding.suggestion, lines)) {
+      const { line, endLine } = finding.suggestion;
+      return buildComment(path, line, endLine, formatFindingComment(finding, finding.suggestion));
+    }
+    core.info(`Dropped suggestion for ${path}:${finding.suggestion.line}, range does not match the diff`);
+  }
+
+  if (!finding.line) {
+    return null;
+  }
+
+  const endLine = finding.endLine && finding.endLine > finding.line ? finding.endLine : undefined;
+  const body = formatFindingComment(finding);
+
+  if (endLine && isContiguousRange(finding.line, endLine, lines)) {
+    return buildComment(path, finding.line, endLine, body);
+  }
+
+  return lines.has(finding.line) ? buildComment(path, finding.line, undefined, body) : null;
+}
+
+/**
+ * Check that a suggestion's range sits inside one hunk and still has the content the model saw
+ */
+function isApplicableSuggestion(suggestion: SuggestedChange, lines: Map<number, string>): boolean {
+  const endLine = suggestion.endLine ?? suggestion.line;
+
+  if (!isContiguousRange(suggestion.line, endLine, lines)) {
+    return false;
+  }
+
+  const current: string[] = [];
+  for (let line = suggestion.line; line <= endLine; line++) {
+    current.push(lines.get(line)!);
+  }
+
+  return normalizeCode(current.join('\n')) === normalizeCode(suggestion.original);
+}
+
+/**
+ * Every line of the range must be present; adjacent hunks are merged by git, so this also
+ * guarantees the range does not cross a hunk boundary
+ */
+function isContiguousRange(start: number, end: number, lines: Map<number, string>): boolean {
+  for (let line = start; line <= end; line++) {
+    if (!lines.has(line)) return false;
+  }
+  return true;
+}
+
+function buildComment(
+  path: string,
+  line: number,
+  endLine: number | undefined,
+  body: string
+): InlineComment {
+  if (endLine && endLine > line) {
+    return { path, start_line: line, start_side: 'RIGHT', line: endLine, side: 'RIGHT', body };
+  }
+  return { path, line, side: 'RIGHT', body };
+}
+
+/**
+ * Match a path from the review to a changed file, allowing for shortened paths
+ */
+export function resolveFilePath(file: string, changedFiles: string[]): string | null {
+  if (changedFiles.includes(file)) {
+    return file;
+  }
+
+  const candidates = changedFiles.filter((f) => f.endsWith(`/${file}`));
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+function formatFindingComment(finding: ReviewFinding, suggestion?: SuggestedChange): string {
+  const badge = PRIORITY_BADGES[finding.priority];
+  let body = `**${badge}** · **${finding.title}**\n\n${renderFindingDetails(finding)}`;
+
+  if (suggestion) {
+    // Use a fence longer than any backtick run in the replacement so it can't close early
+    const longestRun = Math.max(2, ...(suggestion.replacement.match(/`+/g) || []).map((r) => r.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const replacement = suggestion.replacement.replace(/\n$/, '');
+    body += `\n\n${fence}suggestion\n${replacement}${replacement ? '\n' : ''}${fence}`;
+  }
+
+  return `${body}\n\n${FINDING_MARKER}`;
+}
+
+/**
+ * Compare code ignoring trailing whitespace and line ending differences
+ */
+function normalizeCode(code: string): string {
+  return code
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+}
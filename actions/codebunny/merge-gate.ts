@@ -0,0 +1,160 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getConfig } from './codebunny-config';
+import { listAll } from './github-pagination';
+import { ReviewSnapshot } from './review-history';
+import { getPermissionLevel, hasPermission, isBotAccount } from './trigger-guard';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface GateResult {
+  passed: boolean;
+  failures: string[];
+  /** Login of the maintainer whose override let a failing review pass */
+  overriddenBy?: string;
+}
+
+const PRIORITY_LIMITS = [
+  { priority: 'high', key: 'maxHigh' },
+  { priority: 'medium', key: 'maxMedium' },
+  { priority: 'low', key: 'maxLow' },
+] as const;
+
+const OVERRIDE_COMMAND = /@codebunny\s+override\b/i;
+
+/**
+ * Whether .codebunny.yml sets any gate policy; without one the review never fails the job
+ */
+export function isMergeGateEnabled(): boolean {
+  const { gate } = getConfig();
+  return gate.failOnDontMerge || PRIORITY_LIMITS.some(({ key }) => gate[key] !== undefined);
+}
+
+/**
+ * List the gate policies a review breaks: a DONT_MERGE recommendation, or more findings
+ * of a priority than its threshold allows
+ */
+export function evaluateMergeGate(
+  reviewState: ReviewSnapshot['reviewState'],
+  issuesFound: { high: number; medium: number; low: number }
+): string[] {
+  const { gate } = getConfig();
+  const failures: string[] = [];
+
+  if (gate.failOnDontMerge && reviewState === 'DONT_MERGE') {
+    failures.push('The review recommends not merging');
+  }
+
+  for (const { priority, key } of PRIORITY_LIMITS) {
+    const limit = gate[key];
+    if (limit !== undefined && issuesFound[priority] > limit) {
+      const count = issuesFound[priority];
+      failures.push(`${count} ${priority} priority finding${count !== 1 ? 's' : ''} (at most ${limit} allowed)`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Check the review against the gate, honoring an override label applied by someone with
+ * gate.overridePermission
+ */
+export async function checkMergeGate(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  labels: string[],
+  reviewState: ReviewSnapshot['reviewState'],
+  issuesFound: { high: number; medium: number; low: number }
+): Promise<GateResult> {
+  const failures = evaluateMergeGate(reviewState, issuesFound);
+  if (failures.length === 0) {
+    return { passed: true, failures };
+  }
+
+  const overriddenBy = labels.includes(getConfig().gate.overrideLabel)
+    ? await findOverrideAuthor(octokit, owner, repo, prNumber)
+    : undefined;
+  if (overriddenBy) {
+    core.info(`Merge gate failed but was overridden by ${overriddenBy}`);
+    return { passed: true, failures, overriddenBy };
+  }
+
+  core.info(`Merge gate failed: ${failures.join('; ')}`);
+  return { passed: false, failures };
+}
+
+/**
+ * Describe a failed or overridden gate for the review output
+ */
+export function renderGateResult(result: GateResult): string {
+  if (result.failures.length === 0) {
+    return '';
+  }
+
+  const reasons = result.failures.map((f) => `- ${f}`).join('\n');
+  if (result.overriddenBy) {
+    return `### 🔓 Merge Gate Overridden\n\n@${result.overriddenBy} bypassed the merge gate, which would have failed because of:\n${reasons}`;
+  }
+
+  const { overrideLabel } = getConfig().gate;
+  return `### 🚫 Merge Gate Failed\n\n${reasons}\n\nA maintainer can bypass the gate with \`@codebunny override\` or the \`${overrideLabel}\` label.`;
+}
+
+/**
+ * Find who last applied the override label, if they are allowed to override the gate
+ * A label applied by a bot is credited to the latest @codebunny override comment
+ */
+export async function findOverrideAuthor(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<string | undefined> {
+  const { overrideLabel, overridePermission } = getConfig().gate;
+
+  try {
+    const events = await listAll(
+      octokit,
+      octokit.rest.issues.listEvents,
+      { owner, repo, issue_number: prNumber },
+      { label: 'PR events' }
+    );
+    const labeled = events
+      .filter((e) => e.event === 'labeled' && 'label' in e && e.label?.name === overrideLabel)
+      .pop();
+    let login = labeled?.actor?.login;
+    if (login && isBotAccount({ login, type: labeled?.actor?.type })) {
+      const comments = await listAll(
+        octokit,
+        octokit.rest.issues.listComments,
+        { owner, repo, issue_number: prNumber },
+        { label: 'PR comments' }
+      );
+      login = comments
+        .filter(
+          (c) =>
+            !isBotAccount({ login: c.user?.login || '', type: c.user?.type }) &&
+            OVERRIDE_COMMAND.test(c.body || '')
+        )
+        .pop()?.user?.login;
+    }
+    if (!login) {
+      return undefined;
+    }
+
+    const permission = await getPermissionLevel(octokit, owner, repo, login);
+    if (!permission || !hasPermission(permission, overridePermission)) {
+      core.warning(
+        `Ignoring the ${overrideLabel} label: ${login} has ${permission || 'no'} permission, ${overridePermission} is required`
+      );
+      return undefined;
+    }
+    return login;
+  } catch (error) {
+    core.warning(`Failed to check who applied the ${overrideLabel} label: ${error}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,132 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getConfig } from './codebunny-config';
+import { formatPatchesWithinBudget } from './review-batching';
+import { ReviewEngine } from './review-engine';
+import { PRFile } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface DescriptionContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  prNumber: number;
+  pr: {
+    title: string;
+    body: string;
+  };
+  files: PRFile[];
+  engine: ReviewEngine;
+  postToPR: boolean;
+}
+
+const DESCRIPTION_START = '<!-- codebunny-description:start -->';
+const DESCRIPTION_END = '<!-- codebunny-description:end -->';
+const DESCRIPTION_BLOCK = new RegExp(`${DESCRIPTION_START}[\\s\\S]*?${DESCRIPTION_END}`);
+
+/**
+ * Draft a structured description from the diff and write it into the PR body
+ * Returns the new body, or the old one when the draft was only logged
+ */
+export async function describePullRequest(ctx: DescriptionContext): Promise<string> {
+  const authorText = stripDescriptionBlock(ctx.pr.body);
+  const draft = await ctx.engine.complete(generateDescriptionPrompt(ctx.pr.title, authorText, ctx.files), {
+    label: 'continue-describe',
+    timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+  });
+
+  if (!ctx.postToPR) {
+    core.info(`PR description draft (not written):\n${draft.trim()}`);
+    return ctx.pr.body;
+  }
+
+  // The draft takes minutes, so merge into the body as it is now in case the author edited it meanwhile
+  const { data: current } = await ctx.octokit.rest.pulls.get({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    pull_number: ctx.prNumber,
+  });
+  const body = mergeDescriptionBlock(current.body || '', draft.trim());
+
+  await ctx.octokit.rest.pulls.update({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    pull_number: ctx.prNumber,
+    body,
+  });
+  core.info(`✅ Updated the description of PR #${ctx.prNumber}`);
+  return body;
+}
+
+/**
+ * Put the draft between CodeBunny's markers, replacing an earlier draft in place
+ * or appending below the author's text so nothing they wrote is overwritten
+ */
+export function mergeDescriptionBlock(body: string, draft: string): string {
+  const block = `${DESCRIPTION_START}\n## 🐰 CodeBunny Summary\n\n${draft}\n${DESCRIPTION_END}`;
+
+  if (DESCRIPTION_BLOCK.test(body)) {
+    return body.replace(DESCRIPTION_BLOCK, () => block);
+  }
+
+  const authorText = body.trim();
+  return authorText ? `${authorText}\n\n${block}` : block;
+}
+
+/**
+ * The author's own part of a PR body, without CodeBunny's drafted block
+ */
+export function stripDescriptionBlock(body: string): string {
+  return body.replace(DESCRIPTION_BLOCK, '').trim();
+}
+
+function generateDescriptionPrompt(title: string, authorText: string, files: PRFile[]): string {
+  const { batchCharBudget, maxFilePatchChars } = getConfig().limits;
+  const diffs = formatPatchesWithinBudget(files, batchCharBudget, maxFilePatchChars);
+
+  return `You are writing the description of a pull request from its diff.
+
+# Pull Request: ${title}
+${authorText ? `\n## Author's Description\n${authorText}\n\nDo not repeat what the author already says; add what is missing.\n` : ''}
+## Changed Files by Area
+${formatFilesByArea(files)}
+
+## Diffs
+${diffs || 'The diffs are too large to include; describe the changes from the file list.'}
+
+Write the description in markdown with exactly these sections:
+### Summary
+Two or three sentences on what the pull request does and why.
+### Changes
+One bullet group per area listed above, describing what changed in that area.
+### Risk
+What could break, who is affected, and anything that needs a migration or config change. Say "Low" with a reason if nothing stands out.
+### Testing
+How the change is tested in the diff, and what a reviewer should check by hand.
+
+Describe only what the diff shows. Respond with ONLY the markdown description.`;
+}
+
+/**
+ * Group changed files by their top-level directory, e.g. "src" or "docs"
+ */
+function formatFilesByArea(files: PRFile[]): string {
+  const areas = new Map<string, PRFile[]>();
+  for (const file of files) {
+    const area = file.filename.includes('/') ? file.filename.split('/')[0] : '(root)';
+    areas.set(area, [...(areas.get(area) || []), file]);
+  }
+
+  return Array.from(areas.entries())
+    .map(([area, areaFiles]) => {
+      const listed = areaFiles
+        .slice(0, 20)
+        .map((f) => `  - \`${f.filename}\` (+${f.additions}/-${f.deletions})`);
+      if (areaFiles.length > 20) {
+        listed.push(`  - ...and ${areaFiles.length - 20} more`);
+      }
+      return `- **${area}**\n${listed.join('\n')}`;
+    })
+    .join('\n');
+}
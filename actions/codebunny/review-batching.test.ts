@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeBatchReviews, planReviewBatches } from './review-batching';
+import { StructuredReview, createFallbackReview } from './review-schema';
+import { PRFile } from './types';
+
+function file(filename: string, size: number): PRFile {
+  return { filename, additions: 1, deletions: 0, patch: 'x'.repeat(size) };
+}
+
+const blocking: StructuredReview = {
+  recommendation: 'DONT_MERGE',
+  summary: 'SQL injection in the query builder',
+  findings: [
+    { title: 'SQL injection', priority: 'high', category: 'security', file: 'a.ts', line: 3, problem: 'p', fix: 'f' },
+  ],
+  recommendations: [],
+};
+
+test('a DONT_MERGE batch is not overridden by a batch without a recommendation', () => {
+  const plan = planReviewBatches([file('a.ts', 100), file('b.ts', 100)], 150);
+  assert.equal(plan.batches.length, 2);
+
+  const merged = mergeBatchReviews([blocking, createFallbackReview('invalid response')], plan);
+
+  assert.equal(merged.recommendation, 'DONT_MERGE');
+  assert.equal(merged.summary, blocking.summary);
+  assert.deepEqual(merged.coverage?.reviewedFiles, ['a.ts']);
+  assert.deepEqual(merged.coverage?.skippedFiles, [
+    { file: 'b.ts', reason: 'the review of this batch made no recommendation' },
+  ]);
+  assert.equal(merged.coverage?.batches, 1);
+});
+
+test('the verdict does not depend on which batch failed', () => {
+  const plan = planReviewBatches([file('a.ts', 100), file('b.ts', 100)], 150);
+  const merged = mergeBatchReviews([createFallbackReview('invalid response'), blocking], plan);
+
+  assert.equal(merged.recommendation, 'DONT_MERGE');
+  assert.deepEqual(merged.coverage?.reviewedFiles, ['b.ts']);
+  assert.deepEqual(merged.coverage?.skippedFiles.map((s) => s.file), ['a.ts']);
+});
+
+test('batches that all lack a recommendation stay UNKNOWN', () => {
+  const plan = planReviewBatches([file('a.ts', 100), file('b.ts', 100)], 150);
+  const merged = mergeBatchReviews([createFallbackReview('one'), createFallbackReview('two')], plan);
+
+  assert.equal(merged.recommendation, 'UNKNOWN');
+  assert.deepEqual(merged.coverage?.reviewedFiles, ['a.ts', 'b.ts']);
+});
@@ -0,0 +1,202 @@
+import {
+  ReviewCoverage,
+  ReviewFinding,
+  StructuredReview,
+} from './review-schema';
+import { PRFile } from './types';
+
+export interface ReviewBatch {
+  index: number;
+  total: number;
+  files: PRFile[];
+  otherFiles: string[];
+}
+
+export interface BatchPlan {
+  batches: ReviewBatch[];
+  skipped: ReviewCoverage['skippedFiles'];
+}
+
+export const DEFAULT_BATCH_CHAR_BUDGET = 14000;
+export const DEFAULT_MAX_BATCHES = 6;
+
+// A single file larger than this is not sent to the model at all
+export const DEFAULT_MAX_FILE_PATCH_CHARS = 60000;
+
+// UNKNOWN (a batch whose response failed validation) never outranks a real verdict
+const RECOMMENDATION_SEVERITY: Record<StructuredReview['recommendation'], number> = {
+  UNKNOWN: -1,
+  MERGE: 0,
+  MERGE_AFTER_CHANGES: 1,
+  DONT_MERGE: 2,
+};
+
+const PRIORITY_RANK: Record<ReviewFinding['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Render diffs for a single prompt, leaving out files that would push it past the budget
+ */
+export function formatPatchesWithinBudget(
+  files: PRFile[],
+  budget: number = DEFAULT_BATCH_CHAR_BUDGET,
+  maxFileChars: number = DEFAULT_MAX_FILE_PATCH_CHARS
+): string {
+  let remaining = budget;
+  let diffs = '';
+
+  for (const file of files) {
+    const size = file.patch?.length || 0;
+    if (size === 0 || size > maxFileChars || size > remaining) continue;
+    diffs += `\n## File: ${file.filename}\n\`\`\`diff\n${file.patch}\n\`\`\`\n`;
+    remaining -= size;
+  }
+
+  return diffs;
+}
+
+/**
+ * Split changed files into batches whose combined diff fits the character budget
+ * Files keep their PR order; a file larger than the budget gets a batch of its own
+ */
+export function planReviewBatches(
+  files: PRFile[],
+  budget: number = DEFAULT_BATCH_CHAR_BUDGET,
+  maxBatches: number = DEFAULT_MAX_BATCHES,
+  maxFileChars: number = DEFAULT_MAX_FILE_PATCH_CHARS
+): BatchPlan {
+  const skipped: BatchPlan['skipped'] = [];
+  const groups: PRFile[][] = [];
+  let current: PRFile[] = [];
+  let currentSize = 0;
+
+  for (const file of files) {
+    const size = file.patch?.length || 0;
+
+    if (size === 0) {
+      skipped.push({ file: file.filename, reason: 'no textual diff available' });
+      continue;
+    }
+
+    if (size > maxFileChars) {
+      skipped.push({ file: file.filename, reason: `diff too large (${size} characters)` });
+      continue;
+    }
+
+    if (current.length > 0 && currentSize + size > budget) {
+      groups.push(current);
+      current = [];
+      currentSize = 0;
+    }
+
+    current.push(file);
+    currentSize += size;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  for (const group of groups.slice(maxBatches)) {
+    for (const file of group) {
+      skipped.push({ file: file.filename, reason: `batch limit of ${maxBatches} reached` });
+    }
+  }
+
+  const kept = groups.slice(0, maxBatches);
+  const allFiles = files.map((f) => f.filename);
+
+  const batches = kept.map((group, i) => {
+    const names = new Set(group.map((f) => f.filename));
+    return {
+      index: i + 1,
+      total: kept.length,
+      files: group,
+      otherFiles: allFiles.filter((f) => !names.has(f)),
+    };
+  });
+
+  return { batches, skipped };
+}
+
+/**
+ * Reduce per-batch reviews, one per planned batch, into a single review with one TLDR
+ * The most severe recommendation wins and duplicate findings are collapsed; files of a batch
+ * without a recommendation are reported as not reviewed when another batch made one
+ */
+export function mergeBatchReviews(reviews: StructuredReview[], plan: BatchPlan): StructuredReview {
+  const coverage: ReviewCoverage = {
+    reviewedFiles: plan.batches.flatMap((b) => b.files.map((f) => f.filename)),
+    skippedFiles: plan.skipped,
+    batches: plan.batches.length,
+  };
+
+  if (reviews.length === 0) {
+    return {
+      recommendation: 'UNKNOWN',
+      summary: 'No reviewable changes were found in this pull request.',
+      findings: [],
+      recommendations: [],
+      coverage: { ...coverage, reviewedFiles: [] },
+    };
+  }
+
+  if (reviews.length === 1) {
+    return { ...reviews[0], coverage };
+  }
+
+  const undecided = plan.batches.filter((_, i) => reviews[i]?.recommendation === 'UNKNOWN');
+  if (undecided.length < reviews.length) {
+    const files = new Set(undecided.flatMap((batch) => batch.files.map((f) => f.filename)));
+    coverage.reviewedFiles = coverage.reviewedFiles.filter((file) => !files.has(file));
+    coverage.skippedFiles = [
+      ...coverage.skippedFiles,
+      ...Array.from(files).map((file) => ({ file, reason: 'the review of this batch made no recommendation' })),
+    ];
+    coverage.batches -= undecided.length;
+  }
+
+  const decisive = reviews.reduce((worst, review) =>
+    RECOMMENDATION_SEVERITY[review.recommendation] > RECOMMENDATION_SEVERITY[worst.recommendation]
+      ? review
+      : worst
+  );
+
+  const overview = reviews
+    .map((review, i) => `- **Part ${i + 1}**: ${review.overview || review.summary}`)
+    .join('\n');
+
+  const rawResponses = reviews.map((r) => r.rawResponse).filter(Boolean);
+
+  return {
+    recommendation: decisive.recommendation,
+    summary: decisive.summary,
+    overview: `This pull request was reviewed in ${reviews.length} parts.\n\n${overview}`,
+    findings: deduplicateFindings(reviews.flatMap((r) => r.findings)),
+    recommendations: Array.from(new Set(reviews.flatMap((r) => r.recommendations))),
+    rawResponse: rawResponses.length > 0 ? rawResponses.join('\n\n---\n\n') : undefined,
+    coverage,
+  };
+}
+
+/**
+ * Collapse findings that point at the same place for the same reason, keeping the highest priority
+ */
+function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[] {
+  const byKey = new Map<string, ReviewFinding>();
+
+  for (const finding of findings) {
+    const key =
+      finding.file && finding.line
+        ? `${finding.file}:${finding.line}:${finding.category}`
+        : finding.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+    const existing = byKey.get(key);
+    if (!existing || PRIORITY_RANK[finding.priority] < PRIORITY_RANK[existing.priority]) {
+      byKey.set(key, finding);
+    }
+  }
+
+  return Array.from(byKey.values()).sort(
+    (a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+  );
+}
@@ -0,0 +1,103 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { OpenAICompatibleEngine } from './review-engine';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: any;
+}
+
+/** How the stub chat completions server answers the next request */
+let respond: (res: ServerResponse) => void;
+let requests: RecordedRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+function reply(status: number, body: unknown): (res: ServerResponse) => void {
+  return (res) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+}
+
+function record(req: IncomingMessage, raw: string): void {
+  requests.push({
+    method: req.method || '',
+    url: req.url || '',
+    authorization: req.headers.authorization,
+    body: raw ? JSON.parse(raw) : undefined,
+  });
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      record(req, raw);
+      respond(res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('sends the prompt as a chat completion and returns the trimmed content', async () => {
+  requests = [];
+  respond = reply(200, { choices: [{ message: { role: 'assistant', content: '  Looks good\n' } }] });
+  const engine = new OpenAICompatibleEngine({ baseUrl: `${baseUrl}/`, apiKey: 'sk-test', model: 'gpt-test' });
+
+  const content = await engine.complete('Review this diff');
+
+  assert.equal(content, 'Looks good');
+  assert.equal(engine.id, 'openai:gpt-test');
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].method, 'POST');
+  assert.equal(requests[0].url, '/v1/chat/completions');
+  assert.equal(requests[0].authorization, 'Bearer sk-test');
+  assert.deepEqual(requests[0].body, {
+    model: 'gpt-test',
+    messages: [{ role: 'user', content: 'Review this diff' }],
+    temperature: 0.2,
+  });
+});
+
+test('sends no authorization header without an API key', async () => {
+  requests = [];
+  respond = reply(200, { choices: [{ message: { content: 'ok' } }] });
+
+  await new OpenAICompatibleEngine({ baseUrl, model: 'llama3' }).complete('p');
+
+  assert.equal(requests[0].authorization, undefined);
+});
+
+test('an error response fails with its status and body', async () => {
+  respond = reply(429, { error: { message: 'Rate limit reached' } });
+  const engine = new OpenAICompatibleEngine({ baseUrl, model: 'gpt-test' });
+
+  await assert.rejects(engine.complete('p'), /Chat completions request failed \(429\): .*Rate limit reached/);
+});
+
+test('a response without message content is rejected', async () => {
+  respond = reply(200, { choices: [] });
+  const engine = new OpenAICompatibleEngine({ baseUrl, model: 'gpt-test' });
+
+  await assert.rejects(engine.complete('p'), /did not include choices\[0\]\.message\.content/);
+});
+
+test('a request that outlives the timeout is aborted', async () => {
+  // Never answer, so only the engine's timeout can end the request
+  respond = () => {};
+  const engine = new OpenAICompatibleEngine({ baseUrl, model: 'gpt-test' });
+
+  await assert.rejects(engine.complete('p', { timeoutMs: 1000 }), /timed out after 1s/);
+});
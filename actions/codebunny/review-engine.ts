@@ -0,0 +1,419 @@
+import * as core from '@actions/core';
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A backend that turns a review prompt into the model's response text
+ */
+export interface ReviewEngine {
+  /** Identifier recorded in review metrics */
+  readonly id: string;
+  complete(prompt: string, options?: CompletionOptions): Promise<string>;
+}
+
+export interface CompletionOptions {
+  /** Prefix for temp files and log messages */
+  label?: string;
+  timeoutMs?: number;
+}
+
+export type ReviewEngineType = 'continue' | 'openai';
+
+export interface ReviewEngineConfig {
+  type: ReviewEngineType;
+  continue?: {
+    config: string;
+    apiKey: string;
+  };
+  openai?: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+  };
+}
+
+const DEFAULT_TIMEOUT_MS = 420000; // 7 minutes
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+// Low, so repeated reviews of the same diff stay consistent
+const OPENAI_TEMPERATURE = 0.2;
+
+/**
+ * Review engine backed by the Continue CLI (`cn`)
+ */
+export class ContinueCliEngine implements ReviewEngine {
+  readonly id: string;
+
+  constructor(
+    private options: NonNullable<ReviewEngineConfig['continue']>,
+    private githubToken: string
+  ) {
+    this.id = options.config;
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return executeContinuePrompt(prompt, options.label || 'continue-review', {
+      continueConfig: this.options.config,
+      continueApiKey: this.options.apiKey,
+      githubToken: this.githubToken,
+      timeout: options.timeoutMs || DEFAULT_TIMEOUT_MS,
+      maxBuffer: 15 * 1024 * 1024, // 15MB buffer for larger responses
+    });
+  }
+}
+
+/**
+ * Review engine for any OpenAI-compatible chat completions endpoint
+ * (OpenAI, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleEngine implements ReviewEngine {
+  readonly id: string;
+
+  constructor(private options: NonNullable<ReviewEngineConfig['openai']>) {
+    this.id = `openai:${options.model}`;
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const timeout = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    if (process.env.DEBUG_MODE === 'true') {
+      core.info(`Sending ${prompt.length} character prompt to ${url} (model: ${this.options.model})`);
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: OPENAI_TEMPERATURE,
+        }),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+
+      if (!response.ok) {
+        throw new Error(`Chat completions request failed (${response.status}): ${text.slice(0, 500)}`);
+      }
+
+      const data = JSON.parse(text);
+      const content = data?.choices?.[0]?.message?.content;
+
+      if (typeof content !== 'string') {
+        throw new Error('Chat completions response did not include choices[0].message.content');
+      }
+
+      return content.trim();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Chat completions request timed out after ${Math.round(timeout / 1000)}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Create the review engine described by the configuration
+ * The GitHub token is handed to Continue CLI so its tools can call the GitHub API
+ */
+export function createReviewEngine(config: ReviewEngineConfig, githubToken: string): ReviewEngine {
+  switch (config.type) {
+    case 'continue':
+      if (!config.continue) {
+        throw new Error('Continue engine requires continue-config and continue-api-key');
+      }
+      return new ContinueCliEngine(config.continue, githubToken);
+    case 'openai':
+      if (!config.openai) {
+        throw new Error('OpenAI-compatible engine requires openai-model');
+      }
+      return new OpenAICompatibleEngine(config.openai);
+    default:
+      throw new Error(`Unknown review engine: ${config.type}`);
+  }
+}
+
+/**
+ * Read the review engine configuration from action inputs
+ * Validates that the inputs required by the selected engine are present
+ */
+export function getReviewEngineConfig(): ReviewEngineConfig {
+  const type = (process.env.INPUT_REVIEW_ENGINE || core.getInput('review-engine') || 'continue')
+    .trim()
+    .toLowerCase();
+
+  if (type === 'openai') {
+    const model = process.env.INPUT_OPENAI_MODEL || core.getInput('openai-model');
+    if (!model) {
+      core.error('OpenAI model is missing');
+      throw new Error('Required input missing: openai-model');
+    }
+
+    return {
+      type,
+      openai: {
+        baseUrl:
+          process.env.INPUT_OPENAI_BASE_URL || core.getInput('openai-base-url') || DEFAULT_OPENAI_BASE_URL,
+        apiKey:
+          process.env.INPUT_OPENAI_API_KEY || core.getInput('openai-api-key') || process.env.OPENAI_API_KEY,
+        model,
+      },
+    };
+  }
+
+  if (type !== 'continue') {
+    throw new Error(`Invalid review-engine "${type}". Expected "continue" or "openai"`);
+  }
+
+  const apiKey = process.env.INPUT_CONTINUE_API_KEY || core.getInput('continue-api-key');
+  const config = process.env.INPUT_CONTINUE_CONFIG || core.getInput('continue-config');
+
+  if (!apiKey) {
+    core.error('Continue API key is missing');
+    throw new Error('Required input missing: continue-api-key');
+  }
+  if (!config) {
+    core.error('Continue config is missing');
+    throw new Error('Required input missing: continue-config');
+  }
+
+  return { type, continue: { config, apiKey } };
+}
+
+/**
+ * Validates that a CLI path is safe to execute
+ * @param cliPath The path to validate
+ * @returns true if the path is safe, false otherwise
+ */
+function isValidCliPath(cliPath: string): boolean {
+  // Ensure the path doesn't contain dangerous characters
+  const dangerousPatterns = [';', '&&', '||', '`', '$', '>', '<', '|', '\n', '\r'];
+  for (const pattern of dangerousPatterns) {
+    if (cliPath.includes(pattern)) {
+      core.error(`CLI path contains dangerous character: ${pattern}`);
+      return false;
+    }
+  }
+
+  // Ensure the path is within expected locations
+  const validPrefixes = [
+    '/usr/local/bin/',
+    '/usr/bin/',
+    process.env.GITHUB_ACTION_PATH || process.cwd(),
+    'node_modules/.bin/',
+  ];
+
+  const isValidLocation = validPrefixes.some(
+    (prefix) => cliPath.startsWith(prefix) || cliPath === 'cn'
+  );
+
+  if (!isValidLocation) {
+    core.error(`CLI path is not in a valid location: ${cliPath}`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Detects and validates the Continue CLI installation
+ * @returns Object with availability status and validated path
+ */
+async function detectContinueCLI(): Promise<{ available: boolean; path: string }> {
+  const isDebugMode = process.env.DEBUG_MODE === 'true';
+
+  if (isDebugMode) {
+    core.info('Starting Continue CLI detection...');
+  }
+
+  // First, try system-wide installation
+  const systemCheck = await new Promise<string | null>((resolve) => {
+    exec('which cn', (error, stdout) => {
+      if (!error && stdout.trim()) {
+        resolve(stdout.trim());
+      } else {
+        resolve(null);
+      }
+    });
+  });
+
+  if (systemCheck) {
+    if (isDebugMode) {
+      core.info(`System-wide Continue CLI found at: ${systemCheck}`);
+    }
+
+    // Verify it's executable
+    const versionCheck = await new Promise<boolean>((resolve) => {
+      exec('cn --version', (error, output) => {
+        if (!error) {
+          if (isDebugMode) {
+            core.info(`Continue CLI version: ${output.trim()}`);
+          }
+          resolve(true);
+        } else {
+          resolve(false);
+        }
+      });
+    });
+
+    if (versionCheck && isValidCliPath('cn')) {
+      return { available: true, path: 'cn' };
+    }
+  }
+
+  // Try local installation
+  const actionPath = process.env.GITHUB_ACTION_PATH || process.cwd();
+  const localPaths = [
+    `${actionPath}/node_modules/.bin/cn`,
+    `${process.cwd()}/node_modules/.bin/cn`,
+    './node_modules/.bin/cn',
+  ];
+
+  for (const localPath of localPaths) {
+    if (isDebugMode) {
+      core.info(`Checking local path: ${localPath}`);
+    }
+
+    const localCheck = await new Promise<boolean>((resolve) => {
+      exec(`${localPath} --version`, (error, output) => {
+        if (!error) {
+          if (isDebugMode) {
+            core.info(`Found Continue CLI at ${localPath}: ${output.trim()}`);
+          }
+          resolve(true);
+        } else {
+          resolve(false);
+        }
+      });
+    });
+
+    if (localCheck && isValidCliPath(localPath)) {
+      return { available: true, path: localPath };
+    }
+  }
+
+  // Check if package is installed but binary not accessible
+  if (isDebugMode) {
+    const packageCheck = await new Promise<boolean>((resolve) => {
+      exec('npm list @continuedev/cli 2>/dev/null', (error, output) => {
+        resolve(!error && output.includes('@continuedev/cli'));
+      });
+    });
+
+    if (packageCheck) {
+      core.warning('Continue CLI package is installed but binary not accessible');
+      core.info('PATH: ' + process.env.PATH);
+    } else {
+      core.error('Continue CLI is not installed');
+    }
+  }
+
+  return { available: false, path: '' };
+}
+
+interface ContinueCliOptions {
+  continueConfig: string;
+  continueApiKey: string;
+  githubToken: string;
+  timeout: number;
+  maxBuffer: number;
+}
+
+/**
+ * Run a prompt through Continue CLI and return its output with ANSI codes removed
+ */
+async function executeContinuePrompt(
+  prompt: string,
+  tempPrefix: string,
+  options: ContinueCliOptions
+): Promise<string> {
+  const isDebugMode = process.env.DEBUG_MODE === 'true';
+
+  // Write prompt to temp file for headless mode
+  const tempFile = path.join('/tmp', `${tempPrefix}-${Date.now()}.txt`);
+  await fs.writeFile(tempFile, prompt);
+
+  try {
+    // Detect and validate Continue CLI
+    const cliDetection = await detectContinueCLI();
+
+    if (!cliDetection.available) {
+      throw new Error(
+        'Continue CLI could not be found or executed. Please check the action setup.'
+      );
+    }
+
+    const command = `${cliDetection.path} --config ${options.continueConfig} -p @${tempFile} --allow Bash`;
+
+    if (isDebugMode) {
+      core.info(`Executing Continue CLI: ${command}`);
+      core.info(`Continue API Key is set: ${options.continueApiKey ? 'Yes' : 'No'}`);
+      core.info(`GitHub Token is set: ${options.githubToken ? 'Yes' : 'No'}`);
+    }
+
+    const { stdout, stderr } = await new Promise<{ stdout: string; stderr: string }>(
+      (resolve, reject) => {
+        const childProcess = exec(
+          command,
+          {
+            env: {
+              ...process.env,
+              CONTINUE_API_KEY: options.continueApiKey,
+              GITHUB_TOKEN: options.githubToken,
+              GH_TOKEN: options.githubToken,
+            },
+            timeout: options.timeout,
+            maxBuffer: options.maxBuffer,
+          },
+          (error, stdout, stderr) => {
+            if (error) {
+              core.error(`Continue CLI error: ${error.message}`);
+              if (error.code && error.code.toString() === 'ETIMEDOUT') {
+                core.error(
+                  `Continue CLI execution timed out after ${Math.round(options.timeout / 60000)} minutes`
+                );
+              }
+              if (error.signal) {
+                core.error(`Process killed with signal: ${error.signal}`);
+              }
+              if (stderr) {
+                core.error(`Continue CLI stderr: ${stderr}`);
+              }
+              reject(error);
+            } else {
+              resolve({ stdout, stderr });
+            }
+          }
+        );
+
+        // Log PID for debugging
+        if (childProcess.pid && isDebugMode) {
+          core.info(`Continue CLI process started with PID: ${childProcess.pid}`);
+        }
+      }
+    );
+
+    if (stderr) {
+      core.warning(`Continue CLI stderr: ${stderr}`);
+    }
+
+    // Remove ANSI codes
+    return stdout.trim().replace(/\x1b\[[0-9;]*m/g, '');
+  } finally {
+    // Clean up temp file
+    await fs.unlink(tempFile).catch(() => {});
+  }
+}
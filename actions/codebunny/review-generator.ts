@@ -0,0 +1,377 @@
+import * as core from '@actions/core';
+import { analyzeCodebasePatterns } from './codebase-analyzer';
+import { getConfig, getWorkspaceRoot } from './codebunny-config';
+import { generateEnhancedPrompt, generateIncrementalScope } from './enhanced-prompt-generator';
+import { ReviewBatch, planReviewBatches, mergeBatchReviews } from './review-batching';
+import { ReviewEngine } from './review-engine';
+import {
+  StructuredReview,
+  REVIEW_JSON_INSTRUCTIONS,
+  parseStructuredReview,
+  createFallbackReview,
+  generateSchemaRetryPrompt,
+} from './review-schema';
+import { extractProjectType } from './review-metrics';
+import { hasChecks, runRuleChecks } from './rule-checks';
+import { applyRuleLimits, formatRuleMetadata, recordRuleSources } from './rules';
+import { PRFile, ReviewContext } from './types';
+import { groupByPackage, recordPackages } from './workspaces';
+
+/**
+ * Request a structured review, retrying once if the response fails schema validation
+ */
+async function requestStructuredReview(
+  prompt: string,
+  runPrompt: (prompt: string) => Promise<string>
+): Promise<{ review: StructuredReview; responseLength: number }> {
+  const response = await runPrompt(prompt);
+  const firstAttempt = parseStructuredReview(response);
+
+  if (firstAttempt.review) {
+    return { review: firstAttempt.review, responseLength: response.length };
+  }
+
+  core.warning(`Review response failed schema validation: ${firstAttempt.errors.join('; ')}`);
+  core.info('Retrying once with schema correction...');
+
+  const retryResponse = await runPrompt(
+    generateSchemaRetryPrompt(prompt, response, firstAttempt.errors)
+  );
+  const secondAttempt = parseStructuredReview(retryResponse);
+
+  if (secondAttempt.review) {
+    return { review: secondAttempt.review, responseLength: retryResponse.length };
+  }
+
+  core.warning(`Retry also failed schema validation: ${secondAttempt.errors.join('; ')}`);
+  return {
+    review: createFallbackReview(
+      'The review could not be converted into the structured format, so no recommendation was made.',
+      retryResponse || response
+    ),
+    responseLength: retryResponse.length,
+  };
+}
+
+/**
+ * Add the findings of deterministic rule checks, enforce rule limits and note which rules the review used
+ */
+function applyRules(review: StructuredReview, context: ReviewContext): StructuredReview {
+  const checked = {
+    ...review,
+    findings: [...runRuleChecks(context.rules, context.pr.files), ...review.findings],
+  };
+  return recordRuleSources(applyRuleLimits(checked, context.rules), context.rules);
+}
+
+/**
+ * Review the PR in diff-budget sized batches and merge the partial reviews
+ * A batch whose model call fails is reported as not reviewed; if every batch fails the error is rethrown
+ */
+async function reviewInBatches(
+  files: PRFile[],
+  buildPrompt: (batch: ReviewBatch) => string,
+  runPrompt: (prompt: string) => Promise<string>
+): Promise<{ review: StructuredReview; promptLength: number; responseLength: number }> {
+  const { batchCharBudget, maxBatches, maxFilePatchChars } = getConfig().limits;
+  const plan = planReviewBatches(files, batchCharBudget, maxBatches, maxFilePatchChars);
+  const reviews: StructuredReview[] = [];
+  let promptLength = 0;
+  let responseLength = 0;
+  let lastError: unknown;
+
+  if (plan.batches.length > 1) {
+    core.info(`Large diff: reviewing ${files.length} files in ${plan.batches.length} batches`);
+  }
+  if (plan.skipped.length > 0) {
+    core.info(`Skipping ${plan.skipped.length} files that cannot be reviewed`);
+  }
+
+  for (const batch of plan.batches) {
+    const prompt = buildPrompt(batch);
+    promptLength += prompt.length;
+
+    try {
+      if (plan.batches.length > 1) {
+        core.info(`Reviewing batch ${batch.index}/${batch.total} (${batch.files.length} files)...`);
+      }
+      const result = await requestStructuredReview(prompt, runPrompt);
+      reviews.push(result.review);
+      responseLength += result.responseLength;
+    } catch (error) {
+      lastError = error;
+      core.warning(`Review of batch ${batch.index}/${batch.total} failed: ${error}`);
+      plan.skipped.push(
+        ...batch.files.map((f) => ({ file: f.filename, reason: 'review of this batch failed' }))
+      );
+    }
+  }
+
+  if (reviews.length === 0 && lastError) {
+    throw lastError;
+  }
+
+  // Failed batches no longer count as reviewed
+  const failed = new Set(plan.skipped.map((s) => s.file));
+  const reviewedPlan = {
+    ...plan,
+    batches: plan.batches.filter((b) => !b.files.some((f) => failed.has(f.filename))),
+  };
+
+  return { review: mergeBatchReviews(reviews, reviewedPlan), promptLength, responseLength };
+}
+
+/**
+ * Generate enhanced review using the review engine with codebase analysis
+ * Rule checks run even when the model fails, so their findings are always reported
+ */
+export async function generateEnhancedReview(
+  context: ReviewContext,
+  engine: ReviewEngine
+): Promise<{ review: StructuredReview; metrics: any }> {
+  const result = await runEnhancedReview(context, engine);
+  return { ...result, review: applyRules(result.review, context) };
+}
+
+/**
+ * Run the model review, falling back to the standard prompt if codebase analysis fails
+ */
+async function runEnhancedReview(
+  context: ReviewContext,
+  engine: ReviewEngine
+): Promise<{ review: StructuredReview; metrics: any }> {
+  const startTime = Date.now();
+
+  try {
+    const isDebugMode = process.env.DEBUG_MODE === 'true';
+
+    // Phase 1: Analyze codebase patterns for enhanced context
+    if (isDebugMode) {
+      core.info('Analyzing codebase patterns for enhanced context...');
+    }
+    const projectContext = await analyzeCodebasePatterns(
+      context.pr.files.map((f) => f.filename),
+      getWorkspaceRoot()
+    );
+
+    if (isDebugMode) {
+      core.info(`Detected patterns: ${projectContext.patterns.length}`);
+      core.info(
+        `Project type: ${extractProjectType(
+          projectContext.conventions.dependencies.frameworks,
+          projectContext.conventions.dependencies.libraries,
+          projectContext.conventions.dependencies.languages
+        )}`
+      );
+    }
+
+    let promptLength = 0;
+
+    try {
+      core.info(`Executing enhanced review with ${engine.id}...`);
+
+      // In a monorepo, batch the files package by package
+      const packages = projectContext.workspace?.packages || [];
+      const files =
+        packages.length > 0
+          ? groupByPackage(context.pr.files, (f) => f.filename, packages).flatMap((group) => group.items)
+          : context.pr.files;
+
+      // Phase 2: Generate enhanced prompts with codebase insights, one per batch
+      const result = await reviewInBatches(
+        files,
+        (batch) => {
+          const enhancedPrompt = generateEnhancedPrompt(context, projectContext, batch);
+          if (isDebugMode) {
+            core.info(
+              `Enhanced prompt length (batch ${batch.index}): ${enhancedPrompt.length} characters`
+            );
+          }
+          return enhancedPrompt;
+        },
+        (prompt) =>
+          engine.complete(prompt, {
+            label: 'continue-enhanced-review',
+            timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+          })
+      );
+      promptLength = result.promptLength;
+
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      if (isDebugMode) {
+        core.info(`Enhanced review processing time: ${processingTime}s`);
+      }
+
+      return {
+        review: recordPackages(result.review, packages),
+        metrics: {
+          processingTime,
+          promptLength,
+          responseLength: result.responseLength,
+          rulesApplied: context.rules.length,
+          patternsDetected: projectContext.patterns.length,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      core.error(`Enhanced review failed: ${errorMessage}`);
+
+      // Fallback to basic review message
+      return {
+        review: createFallbackReview(
+          `Enhanced review analysis encountered an issue: ${errorMessage}. Please verify the review engine configuration.`
+        ),
+        metrics: {
+          processingTime: Math.round((Date.now() - startTime) / 1000),
+          promptLength,
+          responseLength: 0,
+          rulesApplied: context.rules.length,
+          patternsDetected: projectContext.patterns.length,
+        },
+      };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.error(`Codebase analysis failed: ${errorMessage}`);
+
+    // Fallback to original review approach
+    core.info('Falling back to standard review approach...');
+    return generateStandardReview(context, engine);
+  }
+}
+
+/**
+ * Build the standard (fallback) review prompt for one batch of files
+ */
+function generateStandardPrompt(context: ReviewContext, batch: ReviewBatch): string {
+  // Use the original prompt generation logic as fallback
+  let prompt = `You are reviewing a pull request. Please provide helpful, context-aware feedback.
+
+CONTEXT:
+- Repository: ${context.repository}
+- PR Title: ${context.pr.title}
+- Files Changed: ${context.pr.files.length}
+- Author: ${context.pr.author}
+
+REVIEW APPROACH:
+1. First, understand what this PR is trying to accomplish
+2. Check if similar patterns exist elsewhere in the codebase
+3. Focus on actual issues that affect functionality
+4. Be constructive and suggest solutions when possible
+
+FOCUS ON:
+- Bugs that will cause failures or incorrect behavior
+- Security vulnerabilities (exposed secrets, injection risks)
+- Breaking changes that affect other parts of the system
+- Performance issues with real impact (memory leaks, O(n²) algorithms)
+- Missing tests for new features or bug fixes
+- Missing documentation for APIs or complex logic
+
+SKIP COMMENTING ON:
+- Style and formatting (handled by linters)
+- Alternative approaches unless current is broken
+- Minor naming unless genuinely confusing
+- Trivial documentation for self-explanatory code
+
+Be specific with line numbers and explain why something is an issue.
+
+PR Description: ${context.pr.body || 'No description provided'}
+`;
+
+  if (context.command) {
+    prompt = `Review with specific focus requested by user.
+
+User Request: "${context.command}"
+
+${prompt}
+
+Please address the user's specific request while also checking for any significant issues in the code.
+`;
+  }
+
+  if (context.incremental) {
+    prompt += generateIncrementalScope(context.incremental);
+  }
+
+  if (batch.total > 1) {
+    prompt += `\nSCOPE: This PR is reviewed in ${batch.total} parts. This is part ${batch.index}; only report findings for the files shown below.\n`;
+  }
+
+  // Add applicable rules; rules with checks are enforced without the model
+  const promptRules = context.rules.filter((rule) => !hasChecks(rule));
+  if (promptRules.length > 0) {
+    prompt += '\n\nProject Rules to Consider\n';
+    prompt += 'The following project-specific rules apply to this review:\n\n';
+
+    for (const rule of promptRules) {
+      prompt += `### ${rule.description || rule.file} ${formatRuleMetadata(rule)}\n`;
+      prompt += `${rule.content}\n\n`;
+    }
+  }
+
+  // Add code changes
+  prompt += '\nCode Changes\n';
+  for (const file of batch.files) {
+    if (file.patch) {
+      prompt += `\n=== File: ${file.filename} ===\n${file.patch}\n`;
+    }
+  }
+
+  prompt += '\n\nYour Review\n';
+  prompt += 'Provide constructive feedback on the code changes.\n';
+  prompt += 'Focus on issues that matter for functionality, security, and maintainability.\n';
+  prompt += 'If the code looks good overall, acknowledge that while noting any minor suggestions.\n\n';
+  prompt += REVIEW_JSON_INSTRUCTIONS;
+
+  return prompt;
+}
+
+/**
+ * Fallback to standard review if enhanced analysis fails
+ */
+async function generateStandardReview(
+  context: ReviewContext,
+  engine: ReviewEngine
+): Promise<{ review: StructuredReview; metrics: any }> {
+  const startTime = Date.now();
+
+  try {
+    // Call the review engine for fallback review
+    core.info(`Fallback: Calling ${engine.id} for standard review...`);
+
+    const { review, promptLength, responseLength } = await reviewInBatches(
+      context.pr.files,
+      (batch) => generateStandardPrompt(context, batch),
+      (reviewPrompt) =>
+        engine.complete(reviewPrompt, {
+          label: 'continue-review-fallback',
+          timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+        })
+    );
+
+    return {
+      review,
+      metrics: {
+        processingTime: Math.round((Date.now() - startTime) / 1000),
+        promptLength,
+        responseLength,
+        rulesApplied: context.rules.length,
+        patternsDetected: 0,
+      },
+    };
+  } catch (error) {
+    core.warning(`Fallback review failed: ${error}`);
+    return {
+      review: createFallbackReview(
+        'Unable to generate review. Both enhanced and standard analysis failed.'
+      ),
+      metrics: {
+        processingTime: Math.round((Date.now() - startTime) / 1000),
+        promptLength: 0,
+        responseLength: 0,
+        rulesApplied: context.rules.length,
+        patternsDetected: 0,
+      },
+    };
+  }
+}
@@ -2,15 +2,18 @@ import * as core from '@actions/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { DefaultArtifactClient } from '@actions/artifact';
+import { ReviewFinding, StructuredReview } from './review-schema';
 
 export interface ReviewSnapshot {
   timestamp: string;
   prNumber: number;
   prTitle: string;
   prAuthor: string;
+  headSha?: string;
   filesChanged: number;
   reviewState: 'MERGE' | 'DONT_MERGE' | 'MERGE_AFTER_CHANGES' | 'UNKNOWN';
   reviewText: string;
+  findings?: ReviewFinding[];
   metrics: {
     processingTime: number;
     issuesFound: { high: number; medium: number; low: number };
@@ -33,36 +36,10 @@ export interface ReviewHistory {
 }
 
 /**
- * Extract review state from review text
+ * Extract review state from the structured review
  */
-export function extractReviewState(reviewText: string): ReviewSnapshot['reviewState'] {
-  const tldrSection = reviewText.match(/##\s*🎯\s*TLDR[\s\S]*?\*\*Recommendation\*\*:\s*([^\n]+)/i);
-  
-  if (!tldrSection) {
-    return 'UNKNOWN';
-  }
-
-  const recommendation = tldrSection[1].toLowerCase().trim();
-  
-  // Check for emojis first as they're more reliable
-  if (recommendation.includes('✅')) return 'MERGE';
-  if (recommendation.includes('❌')) return 'DONT_MERGE';
-  if (recommendation.includes('🔄')) return 'MERGE_AFTER_CHANGES';
-  
-  // Fallback to text matching (case-insensitive)
-  if (recommendation.match(/\bmerge\b/i) && !recommendation.match(/don'?t|after/i)) {
-    return 'MERGE';
-  }
-  
-  if (recommendation.match(/don'?t\s+merge/i)) {
-    return 'DONT_MERGE';
-  }
-  
-  if (recommendation.match(/merge\s+after\s+changes/i)) {
-    return 'MERGE_AFTER_CHANGES';
-  }
-  
-  return 'UNKNOWN';
+export function extractReviewState(review: StructuredReview): ReviewSnapshot['reviewState'] {
+  return review.recommendation;
 }
 
 /**
@@ -1,6 +1,8 @@
 import * as core from '@actions/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { getConfig } from './codebunny-config';
+import { StructuredReview } from './review-schema';
 
 interface ReviewMetrics {
   timestamp: string;
@@ -63,9 +65,10 @@ export class ReviewMetricsTracker {
 
       existingMetrics.push(reviewRecord);
 
-      // Keep only last 100 reviews to prevent file bloat
-      if (existingMetrics.length > 100) {
-        existingMetrics.splice(0, existingMetrics.length - 100);
+      // Keep only the most recent reviews to prevent file bloat
+      const { metricsHistory } = getConfig().limits;
+      if (existingMetrics.length > metricsHistory) {
+        existingMetrics.splice(0, existingMetrics.length - metricsHistory);
       }
 
       // Save updated metrics
@@ -217,49 +220,28 @@ export class ReviewMetricsTracker {
 }
 
 /**
- * Parse review response to extract metrics
+ * Derive metrics from the structured review
  */
-export function parseReviewMetrics(reviewText: string): {
+export function parseReviewMetrics(review: StructuredReview): {
   issuesFound: { high: number; medium: number; low: number };
   totalSuggestions: number;
 } {
   const issuesFound = { high: 0, medium: 0, low: 0 };
-  let totalSuggestions = 0;
-
-  // Count priority levels
-  const highMatches = reviewText.match(/\*\*Priority\*\*:\s*High/gi);
-  const mediumMatches = reviewText.match(/\*\*Priority\*\*:\s*Medium/gi);
-  const lowMatches = reviewText.match(/\*\*Priority\*\*:\s*Low/gi);
-
-  issuesFound.high = highMatches?.length || 0;
-  issuesFound.medium = mediumMatches?.length || 0;
-  issuesFound.low = lowMatches?.length || 0;
-
-  // Count total suggestions (look for numbered lists, bullet points, etc.)
-  const suggestionPatterns = [
-    /^\d+\./gm, // numbered lists
-    /^[-*]\s/gm, // bullet points
-    /### .*Issue/gi, // section headers
-    /\*\*Suggestion\*\*/gi, // explicit suggestions
-  ];
-
-  suggestionPatterns.forEach((pattern) => {
-    const matches = reviewText.match(pattern);
-    if (matches) {
-      totalSuggestions = Math.max(totalSuggestions, matches.length);
-    }
-  });
+
+  for (const finding of review.findings) {
+    issuesFound[finding.priority]++;
+  }
 
   return {
     issuesFound,
-    totalSuggestions,
+    totalSuggestions: review.findings.length + review.recommendations.length,
   };
 }
 
 /**
  * Extract project type from context
  */
-export function extractProjectType(frameworks: string[], libraries: string[]): string {
+export function extractProjectType(frameworks: string[], libraries: string[], languages: string[] = []): string {
   if (frameworks.includes('React')) {
     if (frameworks.includes('Next.js')) return 'Next.js Application';
     return 'React Application';
@@ -267,6 +249,8 @@ export function extractProjectType(frameworks: string[], libraries: string[]): s
 
   if (frameworks.includes('Vue')) return 'Vue.js Application';
   if (frameworks.includes('Angular')) return 'Angular Application';
+  if (frameworks.length > 0) return `${frameworks[0]} Application`;
+  if (languages.length > 0) return `${languages[0]} Project`;
   if (libraries.includes('TypeScript')) return 'TypeScript Project';
 
   return 'JavaScript Project';
@@ -0,0 +1,116 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { OUTPUT_SINKS, OutputSink, getConfig } from './codebunny-config';
+import { StructuredReview } from './review-schema';
+
+export interface OutputConfig {
+  dryRun: boolean;
+  sinks: OutputSink[];
+  filePath: string;
+}
+
+const DEFAULT_OUTPUT_FILE = 'codebunny-review';
+
+// Sinks that write to the pull request, which a dry run must not touch
+const PR_SINKS: OutputSink[] = ['comment', 'check'];
+
+/**
+ * Read the dry-run, review-output and output-file inputs, falling back to the output section of .codebunny.yml
+ * In dry-run mode the comment and check sinks are dropped and the step summary is used when nothing else is left
+ */
+export function getOutputConfig(): OutputConfig {
+  const { output } = getConfig();
+  const dryRunInput = process.env.INPUT_DRY_RUN || core.getInput('dry-run');
+  const dryRun = dryRunInput ? dryRunInput.trim().toLowerCase() === 'true' : !!output.dryRun;
+  const raw =
+    process.env.INPUT_REVIEW_OUTPUT ||
+    core.getInput('review-output') ||
+    (output.modes || ['comment']).join(',');
+
+  let sinks: OutputSink[] = [];
+  for (const name of raw.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean)) {
+    if (!(OUTPUT_SINKS as readonly string[]).includes(name)) {
+      throw new Error(`Invalid review-output "${name}". Expected one of: ${OUTPUT_SINKS.join(', ')}`);
+    }
+    if (!sinks.includes(name as OutputSink)) {
+      sinks.push(name as OutputSink);
+    }
+  }
+
+  if (dryRun && sinks.some((sink) => PR_SINKS.includes(sink))) {
+    core.info('Dry run: the review will not be posted to the pull request');
+    sinks = sinks.filter((sink) => !PR_SINKS.includes(sink));
+  }
+
+  if (sinks.length === 0) {
+    sinks.push(dryRun ? 'step-summary' : 'comment');
+  }
+
+  return {
+    dryRun,
+    sinks,
+    filePath:
+      process.env.INPUT_OUTPUT_FILE ||
+      core.getInput('output-file') ||
+      output.file ||
+      DEFAULT_OUTPUT_FILE,
+  };
+}
+
+/**
+ * Serialize a review for a file, as markdown or as the structured JSON review
+ */
+export function formatReview(review: StructuredReview, markdown: string, format: 'markdown' | 'json'): string {
+  return format === 'json' ? JSON.stringify(review, null, 2) + '\n' : markdown + '\n';
+}
+
+/**
+ * Write the review to every configured sink except the PR comment and check run
+ * Failures are logged as warnings so one broken sink does not lose the others
+ */
+export async function writeReviewOutputs(
+  review: StructuredReview,
+  markdown: string,
+  config: OutputConfig
+): Promise<void> {
+  for (const sink of config.sinks) {
+    try {
+      switch (sink) {
+        case 'step-summary':
+          if (!process.env.GITHUB_STEP_SUMMARY) {
+            core.warning('GITHUB_STEP_SUMMARY is not set, skipping step-summary output');
+            break;
+          }
+          await core.summary.addRaw(markdown, true).write();
+          core.info('✅ Review written to the job summary');
+          break;
+        case 'markdown':
+        case 'json': {
+          const filePath = getOutputPath(config.filePath, sink);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, formatReview(review, markdown, sink));
+          core.info(`✅ Review written to ${filePath}`);
+          break;
+        }
+        case 'stdout':
+          process.stdout.write(markdown + '\n');
+          break;
+      }
+    } catch (error) {
+      core.warning(`Failed to write review to ${sink}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Resolve the file for a format; an existing .md or .json extension is replaced
+ * Relative paths are taken from the workspace, since the action runs from its own directory
+ */
+function getOutputPath(filePath: string, format: 'markdown' | 'json'): string {
+  const base = filePath.replace(/\.(md|markdown|json)$/i, '');
+  return path.resolve(
+    process.env.GITHUB_WORKSPACE || process.cwd(),
+    `${base}${format === 'json' ? '.json' : '.md'}`
+  );
+}
@@ -0,0 +1,509 @@
+import { groupByPackage } from './workspaces';
+
+export type ReviewRecommendation = 'MERGE' | 'DONT_MERGE' | 'MERGE_AFTER_CHANGES';
+export type FindingPriority = 'high' | 'medium' | 'low';
+
+export const FINDING_CATEGORIES = [
+  'correctness',
+  'security',
+  'performance',
+  'architecture',
+  'readability',
+  'type-safety',
+  'error-handling',
+  'testing',
+  'other',
+] as const;
+
+export type FindingCategory = (typeof FINDING_CATEGORIES)[number];
+
+export interface SuggestedChange {
+  line: number;
+  endLine?: number;
+  original: string;
+  replacement: string;
+}
+
+export interface ReviewFinding {
+  title: string;
+  priority: FindingPriority;
+  category: FindingCategory;
+  file?: string;
+  line?: number;
+  endLine?: number;
+  problem: string;
+  impact?: string;
+  fix: string;
+  suggestion?: SuggestedChange;
+  rule?: string;
+  automated?: boolean;
+  carriedOver?: boolean;
+}
+
+export interface ReviewCoverage {
+  reviewedFiles: string[];
+  skippedFiles: { file: string; reason: string }[];
+  batches: number;
+  sinceSha?: string;
+  rules?: string[];
+  /** Monorepo packages the reviewed files belong to; findings are grouped by them */
+  packages?: { name: string; dir: string; files: number }[];
+}
+
+export interface StructuredReview {
+  recommendation: ReviewRecommendation | 'UNKNOWN';
+  summary: string;
+  overview?: string;
+  findings: ReviewFinding[];
+  recommendations: string[];
+  rawResponse?: string;
+  coverage?: ReviewCoverage;
+}
+
+const RECOMMENDATIONS: ReviewRecommendation[] = ['MERGE', 'DONT_MERGE', 'MERGE_AFTER_CHANGES'];
+const PRIORITIES: FindingPriority[] = ['high', 'medium', 'low'];
+
+const RECOMMENDATION_LABELS: Record<StructuredReview['recommendation'], string> = {
+  MERGE: 'MERGE ✅',
+  DONT_MERGE: "DON'T MERGE ❌",
+  MERGE_AFTER_CHANGES: 'MERGE AFTER CHANGES 🔄',
+  UNKNOWN: 'UNKNOWN ❓',
+};
+
+/**
+ * Prompt section describing the JSON payload the model must return
+ */
+export const REVIEW_JSON_INSTRUCTIONS = `## Review Output Format
+
+Respond with a single JSON object and nothing else (no prose before or after it). It must match this schema:
+
+\`\`\`json
+{
+  "recommendation": "MERGE" | "DONT_MERGE" | "MERGE_AFTER_CHANGES",
+  "summary": "One or two lines explaining the main reason for this recommendation",
+  "overview": "Brief overview of your findings and overall assessment",
+  "findings": [
+    {
+      "title": "Short issue title",
+      "priority": "high" | "medium" | "low",
+      "category": ${FINDING_CATEGORIES.map((c) => `"${c}"`).join(' | ')},
+      "file": "path/to/file.ts",
+      "line": 42,
+      "endLine": 45,
+      "problem": "Clear description of the issue",
+      "impact": "Why it matters",
+      "fix": "Concrete solution, markdown allowed (include a code example)",
+      "rule": "rule-file.md",
+      "suggestion": {
+        "line": 42,
+        "endLine": 43,
+        "original": "the exact current content of lines 42-43",
+        "replacement": "the code that should replace those lines"
+      }
+    }
+  ],
+  "recommendations": ["Overall next steps or suggestions for improvement"]
+}
+\`\`\`
+
+- \`file\` and \`line\` refer to the new version of the file and should point at a line shown in the diff
+- \`endLine\` is optional and only used when the issue spans several lines
+- Add \`suggestion\` only when the fix is a drop-in replacement for specific added or context lines in the diff; \`original\` must be copied exactly from the new version of the file, and \`replacement\` is the complete new content for that range (an empty string deletes it)
+- Set \`rule\` to the rule's file name only when the finding is a violation of one of the project rules; omit it otherwise
+- Use an empty \`findings\` array when there is nothing to report
+- String values may contain markdown, but never use # (h1) headers`;
+
+/**
+ * Parse and validate the model's JSON review
+ */
+export function parseStructuredReview(text: string): {
+  review?: StructuredReview;
+  errors: string[];
+} {
+  const json = extractJson(text);
+
+  if (!json) {
+    return { errors: ['Response does not contain a JSON object'] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  return validateStructuredReview(data);
+}
+
+/**
+ * Validate an already-parsed review payload against the schema
+ */
+export function validateStructuredReview(data: unknown): {
+  review?: StructuredReview;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { errors: ['Review must be a JSON object'] };
+  }
+
+  const recommendation = normalizeEnum(data.recommendation);
+  if (!RECOMMENDATIONS.includes(recommendation as ReviewRecommendation)) {
+    errors.push(`recommendation must be one of ${RECOMMENDATIONS.join(', ')}`);
+  }
+
+  if (typeof data.summary !== 'string' || !data.summary.trim()) {
+    errors.push('summary must be a non-empty string');
+  }
+
+  if (data.overview !== undefined && typeof data.overview !== 'string') {
+    errors.push('overview must be a string');
+  }
+
+  const recommendations = data.recommendations ?? [];
+  if (!Array.isArray(recommendations) || recommendations.some((r) => typeof r !== 'string')) {
+    errors.push('recommendations must be an array of strings');
+  }
+
+  const findings: ReviewFinding[] = [];
+  if (!Array.isArray(data.findings)) {
+    errors.push('findings must be an array');
+  } else {
+    data.findings.forEach((finding, index) => {
+      const result = validateFinding(finding, `findings[${index}]`);
+      errors.push(...result.errors);
+      if (result.finding) findings.push(result.finding);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    review: {
+      recommendation: recommendation as ReviewRecommendation,
+      summary: (data.summary as string).trim(),
+      overview: typeof data.overview === 'string' ? data.overview.trim() : undefined,
+      findings,
+      recommendations: recommendations as string[],
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Build a review for cases where the model could not produce valid output
+ */
+export function createFallbackReview(summary: string, rawResponse?: string): StructuredReview {
+  return {
+    recommendation: 'UNKNOWN',
+    summary,
+    findings: [],
+    recommendations: [],
+    rawResponse: rawResponse?.trim() || undefined,
+  };
+}
+
+/**
+ * Prompt asking the model to correct a response that failed validation
+ */
+export function generateSchemaRetryPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  errors: string[]
+): string {
+  return `${originalPrompt}
+
+---
+
+# Schema Correction Required
+
+Your previous response could not be used because it did not match the required JSON schema:
+
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Previous response:
+\`\`\`
+${previousResponse.slice(0, 4000)}
+\`\`\`
+
+Respond again with ONLY the corrected JSON object.`;
+}
+
+/**
+ * Render the review as the markdown posted to the PR
+ */
+export function renderReviewMarkdown(
+  review: StructuredReview,
+  options: { findings?: ReviewFinding[]; inlineCount?: number } = {}
+): string {
+  const findings = options.findings ?? review.findings;
+  const inlineCount = options.inlineCount ?? 0;
+
+  let markdown = `## 🎯 TLDR\n`;
+  markdown += `**Recommendation**: ${RECOMMENDATION_LABELS[review.recommendation]}\n`;
+  markdown += `**Summary**: ${review.summary}\n\n---\n\n`;
+
+  if (review.overview) {
+    markdown += `## Review Summary\n\n${review.overview}\n\n`;
+  }
+
+  if (review.findings.length > 0) {
+    markdown += `## Issues Found\n\n`;
+
+    if (inlineCount > 0) {
+      markdown += `💬 ${inlineCount} finding${inlineCount !== 1 ? 's were' : ' was'} posted as inline comments on the diff.\n\n`;
+    }
+
+    // Findings in a monorepo review spanning several packages are grouped by package
+    const packages = review.coverage?.packages || [];
+    const groups =
+      packages.length > 1 ? groupByPackage(findings, (f) => f.file, packages) : [{ pkg: undefined, items: findings }];
+    const heading = packages.length > 1 ? '####' : '###';
+
+    let index = 0;
+    for (const { pkg, items } of groups) {
+      if (packages.length > 1) {
+        markdown += pkg ? `### 📦 ${pkg.name}\n\n` : `### Other files\n\n`;
+      }
+      for (const finding of items) {
+        const carried = finding.carriedOver ? ' _(still open from the previous review)_' : '';
+        markdown += `${heading} ${++index}. ${finding.title}${carried}\n`;
+        markdown += `**Priority**: ${capitalize(finding.priority)}\n`;
+        if (finding.file) {
+          markdown += `**File**: \`${formatLocation(finding)}\`\n`;
+        }
+        markdown += renderFindingDetails(finding) + '\n\n';
+      }
+    }
+  } else if (review.recommendation !== 'UNKNOWN') {
+    markdown += `## Issues Found\n\nNo issues found.\n\n`;
+  }
+
+  if (review.recommendations.length > 0) {
+    markdown += `## Recommendations\n`;
+    markdown += review.recommendations.map((r) => `- ${r}`).join('\n') + '\n';
+  }
+
+  if (review.coverage) {
+    markdown = markdown.trimEnd() + '\n\n' + renderCoverage(review.coverage);
+  }
+
+  if (review.rawResponse) {
+    markdown += `\n<details>\n<summary>Unstructured model output</summary>\n\n${review.rawResponse}\n\n</details>\n`;
+  }
+
+  return markdown.trim();
+}
+
+/**
+ * Render the body of a single finding (everything below its title)
+ */
+export function renderFindingDetails(finding: ReviewFinding): string {
+  let markdown = `**Category**: ${finding.category}\n`;
+  markdown += `**Problem**: ${finding.problem}\n`;
+  if (finding.impact) {
+    markdown += `**Why it matters**: ${finding.impact}\n`;
+  }
+  if (finding.rule) {
+    markdown += `**Rule**: \`${finding.rule}\`${finding.automated ? ' (automated check)' : ''}\n`;
+  }
+  markdown += `**Fix**: ${finding.fix}`;
+  return markdown;
+}
+
+/**
+ * Format a finding's file location as path:line or path:start-end
+ */
+export function formatLocation(finding: ReviewFinding): string {
+  if (!finding.file) return '';
+  if (!finding.line) return finding.file;
+  const range = finding.endLine && finding.endLine > finding.line ? `-${finding.endLine}` : '';
+  return `${finding.file}:${finding.line}${range}`;
+}
+
+/**
+ * Render which changed files were (and were not) sent to the model
+ */
+function renderCoverage(coverage: ReviewCoverage): string {
+  const { reviewedFiles, skippedFiles, batches, sinceSha } = coverage;
+  const total = reviewedFiles.length + skippedFiles.length;
+  const since = sinceSha ? ` since \`${sinceSha.slice(0, 7)}\`` : '';
+
+  let markdown = '## Coverage\n\n';
+
+  if (skippedFiles.length === 0) {
+    markdown += `Reviewed all ${total} file${total !== 1 ? 's' : ''} changed${since}`;
+  } else {
+    markdown += `Reviewed ${reviewedFiles.length} of ${total} files changed${since}`;
+  }
+  markdown += batches > 1 ? ` in ${batches} batches.\n` : '.\n';
+
+  if (coverage.packages && coverage.packages.length > 0) {
+    const packages = coverage.packages.map(({ name, files }) => `\`${name}\` (${files} file${files !== 1 ? 's' : ''})`);
+    markdown += `\n**Packages**: ${packages.join(', ')}\n`;
+  }
+
+  if (batches > 1 && reviewedFiles.length > 0) {
+    markdown += `\n<details>\n<summary>Files reviewed</summary>\n\n`;
+    markdown += reviewedFiles.map((f) => `- \`${f}\``).join('\n');
+    markdown += `\n\n</details>\n`;
+  }
+
+  if (skippedFiles.length > 0) {
+    markdown += `\n**Not reviewed:**\n`;
+    markdown += skippedFiles.map(({ file, reason }) => `- \`${file}\` (${reason})`).join('\n') + '\n';
+  }
+
+  if (coverage.rules && coverage.rules.length > 0) {
+    markdown += `\n<details>\n<summary>Rules applied (${coverage.rules.length})</summary>\n\n`;
+    markdown += coverage.rules.map((source) => `- \`${source}\``).join('\n');
+    markdown += `\n\n</details>\n`;
+  }
+
+  return markdown;
+}
+
+function validateFinding(
+  value: unknown,
+  pointer: string
+): { finding?: ReviewFinding; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { errors: [`${pointer} must be an object`] };
+  }
+
+  for (const key of ['title', 'problem', 'fix']) {
+    if (typeof value[key] !== 'string' || !(value[key] as string).trim()) {
+      errors.push(`${pointer}.${key} must be a non-empty string`);
+    }
+  }
+
+  const priority = normalizeEnum(value.priority).toLowerCase() as FindingPriority;
+  if (!PRIORITIES.includes(priority)) {
+    errors.push(`${pointer}.priority must be one of ${PRIORITIES.join(', ')}`);
+  }
+
+  const category = normalizeEnum(value.category).toLowerCase().replace(/_/g, '-') as FindingCategory;
+  if (!FINDING_CATEGORIES.includes(category)) {
+    errors.push(`${pointer}.category must be one of ${FINDING_CATEGORIES.join(', ')}`);
+  }
+
+  if (value.file !== undefined && value.file !== null && typeof value.file !== 'string') {
+    errors.push(`${pointer}.file must be a string`);
+  }
+
+  for (const key of ['line', 'endLine']) {
+    const line = value[key];
+    if (line !== undefined && line !== null && !(Number.isInteger(line) && (line as number) > 0)) {
+      errors.push(`${pointer}.${key} must be a positive integer`);
+    }
+  }
+
+  if (value.impact !== undefined && value.impact !== null && typeof value.impact !== 'string') {
+    errors.push(`${pointer}.impact must be a string`);
+  }
+
+  if (value.rule !== undefined && value.rule !== null && typeof value.rule !== 'string') {
+    errors.push(`${pointer}.rule must be a string`);
+  }
+
+  let suggestion: SuggestedChange | undefined;
+  if (value.suggestion !== undefined && value.suggestion !== null) {
+    const result = validateSuggestion(value.suggestion, `${pointer}.suggestion`);
+    errors.push(...result.errors);
+    suggestion = result.suggestion;
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    finding: {
+      title: (value.title as string).trim(),
+      priority,
+      category,
+      file: value.file ? (value.file as string).replace(/^\.\//, '') : undefined,
+      line: (value.line as number | null) ?? undefined,
+      endLine: (value.endLine as number | null) ?? undefined,
+      problem: (value.problem as string).trim(),
+      impact: (value.impact as string | null)?.trim() || undefined,
+      fix: (value.fix as string).trim(),
+      suggestion,
+      rule: (value.rule as string | null)?.trim() || undefined,
+    },
+    errors: [],
+  };
+}
+
+function validateSuggestion(
+  value: unknown,
+  pointer: string
+): { suggestion?: SuggestedChange; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { errors: [`${pointer} must be an object`] };
+  }
+
+  if (!(Number.isInteger(value.line) && (value.line as number) > 0)) {
+    errors.push(`${pointer}.line must be a positive integer`);
+  }
+
+  const endLine = value.endLine ?? undefined;
+  const validEndLine = Number.isInteger(endLine) && (endLine as number) >= (value.line as number);
+  if (endLine !== undefined && !validEndLine) {
+    errors.push(`${pointer}.endLine must be an integer no smaller than line`);
+  }
+
+  for (const key of ['original', 'replacement']) {
+    if (typeof value[key] !== 'string') {
+      errors.push(`${pointer}.${key} must be a string`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    suggestion: {
+      line: value.line as number,
+      endLine: endLine as number | undefined,
+      original: value.original as string,
+      replacement: value.replacement as string,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Pull the JSON object out of a response that may be wrapped in a code fence or prose
+ */
+export function extractJson(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*\n(\{[\s\S]*\})\s*\n```/);
+  if (fenced) {
+    return fenced[1];
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : null;
+}
+
+function normalizeEnum(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s']/g, '_').replace(/^DON_T_/, 'DONT_') : '';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
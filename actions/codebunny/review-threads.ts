@@ -0,0 +1,308 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getConfig } from './codebunny-config';
+import { getMaxListItems, listAll } from './github-pagination';
+import { FINDING_MARKER } from './inline-review';
+import { ReviewEngine } from './review-engine';
+import { extractJson } from './review-schema';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+type ReviewComment = Awaited<ReturnType<Octokit['rest']['pulls']['listReviewComments']>>['data'][number];
+type ReviewThread = { id: string; isResolved: boolean; comments: { nodes: { databaseId: number }[] } };
+
+/** The fields of a pull_request_review_comment payload that are used here */
+export interface ThreadComment {
+  id: number;
+  in_reply_to_id?: number;
+  body: string;
+  user?: { login?: string; type?: string } | null;
+}
+
+export interface ThreadReply {
+  reply: string;
+  resolved: boolean;
+}
+
+export interface ThreadContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  prNumber: number;
+  headSha: string;
+  engine: ReviewEngine;
+  postToPR: boolean;
+}
+
+const REPLY_MARKER = '<!-- codebunny-reply -->';
+
+// Lines of the current file shown above and below the commented line
+const CODE_CONTEXT_LINES = 20;
+
+/**
+ * Answer a reply in a thread that started with a CodeBunny finding
+ * Replies from bots, top-level review comments and threads started by people are ignored
+ */
+export async function handleThreadReply(
+  comment: ThreadComment,
+  ctx: ThreadContext
+): Promise<void> {
+  if (!comment.in_reply_to_id) {
+    core.info('Review comment does not reply to a thread, skipping');
+    return;
+  }
+  if (comment.user?.type === 'Bot' || comment.body.includes(REPLY_MARKER)) {
+    core.info('Review comment was written by a bot, skipping');
+    return;
+  }
+
+  const { octokit, owner, repo, prNumber } = ctx;
+  const { data: root } = await octokit.rest.pulls.getReviewComment({
+    owner,
+    repo,
+    comment_id: comment.in_reply_to_id,
+  });
+
+  if (root.user?.type !== 'Bot' || !isFindingComment(root.body)) {
+    core.info(`Thread ${root.id} was not started by a CodeBunny finding, skipping`);
+    return;
+  }
+
+  const thread = await getThreadComments(octokit, owner, repo, prNumber, root.id);
+  const code = await getSurroundingCode(ctx, root);
+
+  core.info(`Answering ${comment.user?.login || 'unknown'} in thread ${root.id} on ${root.path}`);
+  const response = await ctx.engine.complete(generateThreadPrompt(root, thread, code), {
+    label: 'continue-thread-reply',
+    timeoutMs: getConfig().limits.timeoutSeconds * 1000,
+  });
+  const answer = parseThreadReply(response);
+
+  if (!ctx.postToPR) {
+    core.info(`Thread reply (not posted, resolved: ${answer.resolved}):\n${answer.reply}`);
+    return;
+  }
+
+  await octokit.rest.pulls.createReplyForReviewComment({
+    owner,
+    repo,
+    pull_number: prNumber,
+    comment_id: root.id,
+    body: `${answer.reply}\n\n${REPLY_MARKER}`,
+  });
+  core.info(`✅ Replied in thread ${root.id}`);
+
+  if (answer.resolved) {
+    await resolveThread(octokit, owner, repo, prNumber, root.id);
+  }
+}
+
+/**
+ * Whether a review comment body is an inline CodeBunny finding
+ */
+export function isFindingComment(body: string): boolean {
+  return body.includes(FINDING_MARKER);
+}
+
+/**
+ * Read the model's reply, falling back to the raw text when it is not the requested JSON
+ */
+export function parseThreadReply(text: string): ThreadReply {
+  const json = extractJson(text);
+  if (json) {
+    try {
+      const data = JSON.parse(json);
+      if (typeof data.reply === 'string' && data.reply.trim()) {
+        return { reply: data.reply.trim(), resolved: data.resolved === true };
+      }
+    } catch {
+      // Fall through to the raw text
+    }
+  }
+
+  core.warning('Thread reply was not valid JSON, posting the raw response');
+  return { reply: text.trim(), resolved: false };
+}
+
+/**
+ * List the thread's comments oldest first, starting with the finding
+ */
+async function getThreadComments(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  rootId: number
+): Promise<ReviewComment[]> {
+  const comments = await listAll(
+    octokit,
+    octokit.rest.pulls.listReviewComments,
+    { owner, repo, pull_number: prNumber },
+    { label: 'review comments' }
+  );
+
+  return comments
+    .filter((c) => c.id === rootId || c.in_reply_to_id === rootId)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
+
+/**
+ * Read the commented lines from the file at the PR head, or fall back to the diff hunk
+ * when the line is gone or the file cannot be read
+ */
+async function getSurroundingCode(
+  ctx: ThreadContext,
+  root: { path: string; line?: number | null; diff_hunk: string }
+): Promise<{ label: string; code: string }> {
+  const hunk = { label: 'Diff hunk the finding was posted on', code: root.diff_hunk };
+  if (!root.line) {
+    return hunk;
+  }
+
+  try {
+    const { data } = await ctx.octokit.rest.repos.getContent({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      path: root.path,
+      ref: ctx.headSha,
+    });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      return hunk;
+    }
+
+    const lines = Buffer.from(data.content, 'base64').toString('utf-8').split('\n');
+    const start = Math.max(1, root.line - CODE_CONTEXT_LINES);
+    const end = Math.min(lines.length, root.line + CODE_CONTEXT_LINES);
+    const code = lines
+      .slice(start - 1, end)
+      .map((text, i) => `${String(start + i).padStart(5)}${start + i === root.line ? '>' : ' '} ${text}`)
+      .join('\n');
+
+    return { label: `Current code (lines ${start}-${end}, the finding's line is marked with >)`, code };
+  } catch (error) {
+    core.warning(`Failed to read ${root.path} at ${ctx.headSha.slice(0, 7)}: ${error}`);
+    return hunk;
+  }
+}
+
+function generateThreadPrompt(
+  root: ReviewComment,
+  thread: ReviewComment[],
+  code: { label: string; code: string }
+): string {
+  const history = thread
+    .filter((c) => c.id !== root.id)
+    .map((c) => {
+      const author = c.body.includes(REPLY_MARKER) ? 'CodeBunny' : `@${c.user?.login || 'unknown'}`;
+      return `**${author}:**\n${c.body.replace(REPLY_MARKER, '').trim()}`;
+    })
+    .join('\n\n');
+
+  return `You are CodeBunny, a code reviewer. You left a finding on a pull request and someone replied in its thread. Continue the conversation.
+
+## Your Original Finding (${root.path}${root.line ? `:${root.line}` : ''})
+${root.body.replace(FINDING_MARKER, '').trim()}
+
+## ${code.label}
+\`\`\`
+${code.code}
+\`\`\`
+
+## Thread
+${history}
+
+## How to Reply
+- Answer the latest message directly and briefly, like a colleague in a code review
+- If they push back with a good argument, concede; if the finding still stands, explain why with reference to the code
+- Check claims that the issue is fixed against the current code above
+- Set "resolved" to true only when the current code shows the issue is fixed
+
+Respond with ONLY a JSON object:
+{"reply": "<markdown reply>", "resolved": <true|false>}`;
+}
+
+/**
+ * Resolve the review thread that starts with the given comment
+ * Threads are only exposed through GraphQL, so the thread is found by its first comment
+ */
+async function resolveThread(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  rootId: number
+): Promise<void> {
+  try {
+    const thread = await findReviewThread(octokit, owner, repo, prNumber, rootId);
+    if (!thread) {
+      core.warning(`Could not find the review thread for comment ${rootId} to resolve`);
+      return;
+    }
+    if (thread.isResolved) {
+      return;
+    }
+
+    await octokit.graphql(
+      `mutation($threadId: ID!) { resolveReviewThread(input: { threadId: $threadId }) { thread { id } } }`,
+      { threadId: thread.id }
+    );
+    core.info(`✅ Resolved thread ${rootId}`);
+  } catch (error) {
+    core.warning(`Failed to resolve review thread ${rootId}: ${error}`);
+  }
+}
+
+/**
+ * Find the review thread whose first comment is rootId, paging from the newest threads back
+ * Stops at the max-list-items cap like the REST listings
+ */
+async function findReviewThread(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  rootId: number
+): Promise<ReviewThread | undefined> {
+  const maxItems = getMaxListItems();
+  let before: string | null = null;
+  let seen = 0;
+
+  while (seen < maxItems) {
+    const result: {
+      repository: {
+        pullRequest: {
+          reviewThreads: {
+            nodes: ReviewThread[];
+            pageInfo: { hasPreviousPage: boolean; startCursor: string | null };
+          };
+        };
+      };
+    } = await octokit.graphql(
+      `query($owner: String!, $repo: String!, $number: Int!, $before: String) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(last: 100, before: $before) {
+              nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+              pageInfo { hasPreviousPage startCursor }
+            }
+          }
+        }
+      }`,
+      { owner, repo, number: prNumber, before }
+    );
+
+    const { nodes, pageInfo } = result.repository.pullRequest.reviewThreads;
+    const thread = nodes.find((t) => t.comments.nodes[0]?.databaseId === rootId);
+    if (thread) {
+      return thread;
+    }
+
+    seen += nodes.length;
+    if (!pageInfo.hasPreviousPage || !pageInfo.startCursor) {
+      return undefined;
+    }
+    before = pageInfo.startCursor;
+  }
+
+  core.warning(`Stopped searching review threads at ${maxItems} items (max-list-items)`);
+  return undefined;
+}
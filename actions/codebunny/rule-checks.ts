@@ -0,0 +1,168 @@
+import * as core from '@actions/core';
+import { ReviewFinding } from './review-schema';
+import { matchesPattern, ruleAppliesToFile } from './rules';
+import { PRFile, Rule } from './types';
+
+// Keeps a noisy pattern from flooding the review when a rule sets no maxFindings
+const MAX_FINDINGS_PER_CHECK_RULE = 20;
+
+const IMPORT_PATTERNS = [
+  /\b(?:import|export)\b[^'"]*?\bfrom\s*['"]([^'"]+)['"]/g,
+  /^\s*import\s*['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /^\s*}?\s*from\s*['"]([^'"]+)['"]/g,
+];
+
+/**
+ * Whether a rule declares pattern or banned-import checks
+ * Such rules are enforced here and are not sent to the model
+ */
+export function hasChecks(rule: Rule): boolean {
+  return rule.patterns.length > 0 || rule.bannedImports.length > 0;
+}
+
+/**
+ * Run every rule's pattern and banned-import checks against the lines each file adds
+ * Findings point at exact new-file lines and name the rule they come from
+ */
+export function runRuleChecks(rules: Rule[], files: PRFile[]): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+
+  for (const rule of rules.filter(hasChecks)) {
+    const patterns = compilePatterns(rule);
+    const ruleFindings: ReviewFinding[] = [];
+
+    for (const file of files) {
+      if (!file.patch || !ruleAppliesToFile(rule, file.filename)) continue;
+
+      for (const { line, content } of parseAddedLines(file.patch)) {
+        const violation = findViolation(content, patterns, rule.bannedImports);
+        if (violation) {
+          ruleFindings.push(createCheckFinding(rule, file.filename, line, violation));
+        }
+      }
+    }
+
+    const limit = rule.maxFindings ?? MAX_FINDINGS_PER_CHECK_RULE;
+    if (ruleFindings.length > limit) {
+      core.info(
+        `Rule ${rule.source} matched ${ruleFindings.length} lines, reporting the first ${limit}`
+      );
+    }
+    findings.push(...ruleFindings.slice(0, limit));
+  }
+
+  if (findings.length > 0) {
+    core.info(`Rule checks found ${findings.length} violations`);
+  }
+
+  return findings;
+}
+
+/**
+ * Collect the lines a patch adds, with their line numbers in the new file
+ */
+export function parseAddedLines(patch: string): { line: number; content: string }[] {
+  const added: { line: number; content: string }[] = [];
+  let rightLine = 0;
+  let inHunk = false;
+
+  for (const line of patch.split('\n')) {
+    const hunkHeader = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkHeader) {
+      rightLine = parseInt(hunkHeader[1], 10);
+      inHunk = true;
+      continue;
+    }
+
+    if (!inHunk || line.startsWith('\\') || line.startsWith('-')) continue;
+
+    if (line.startsWith('+')) {
+      added.push({ line: rightLine, content: line.slice(1) });
+    }
+    rightLine++;
+  }
+
+  return added;
+}
+
+/**
+ * Extract the module specifiers imported on a single line of JavaScript or TypeScript
+ */
+export function extractImports(line: string): string[] {
+  const specifiers: string[] = [];
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+}
+
+function compilePatterns(rule: Rule): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const pattern of rule.patterns) {
+    try {
+      compiled.push(new RegExp(pattern));
+    } catch (error) {
+      core.warning(`Ignoring invalid pattern ${pattern} in rule ${rule.source}: ${error}`);
+    }
+  }
+  return compiled;
+}
+
+function findViolation(
+  content: string,
+  patterns: RegExp[],
+  bannedImports: string[]
+): { kind: 'pattern' | 'import'; match: string } | null {
+  for (const pattern of patterns) {
+    if (pattern.test(content)) {
+      return { kind: 'pattern', match: pattern.source };
+    }
+  }
+
+  for (const specifier of extractImports(content)) {
+    if (bannedImports.some((banned) => isBannedImport(specifier, banned))) {
+      return { kind: 'import', match: specifier };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A banned entry matches the module itself, anything below it, or a glob such as "**\/internal/**"
+ * Globs see relative specifiers without their leading ./ and ../ segments
+ */
+function isBannedImport(specifier: string, banned: string): boolean {
+  if (banned.includes('*')) {
+    return matchesPattern(specifier.replace(/^(\.\.?\/)+/, ''), banned);
+  }
+  const prefix = banned.replace(/\/+$/, '');
+  return specifier === prefix || specifier.startsWith(`${prefix}/`);
+}
+
+function createCheckFinding(
+  rule: Rule,
+  file: string,
+  line: number,
+  violation: { kind: 'pattern' | 'import'; match: string }
+): ReviewFinding {
+  const problem =
+    violation.kind === 'import'
+      ? `Imports \`${violation.match}\`, which this rule bans.`
+      : `Added line matches the rule's pattern \`${violation.match}\`.`;
+
+  return {
+    title: rule.description || `Violation of ${rule.file}`,
+    priority: rule.severity || 'medium',
+    category: 'other',
+    file,
+    line,
+    problem,
+    fix: rule.message || `Change this line so it follows the rule in \`${rule.source}\`.`,
+    rule: rule.source,
+    automated: true,
+  };
+}
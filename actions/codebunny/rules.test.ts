@@ -0,0 +1,51 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadRules } from './rules';
+
+let repo: string;
+let elsewhere: string;
+const originalCwd = process.cwd();
+const originalWorkspace = process.env.GITHUB_WORKSPACE;
+
+async function writeRule(file: string, description: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+  await fs.writeFile(path.join(repo, file), `---\ndescription: ${description}\nalwaysApply: true\n---\nBody\n`);
+}
+
+before(async () => {
+  repo = await fs.mkdtemp(path.join(os.tmpdir(), 'codebunny-rules-'));
+  elsewhere = await fs.mkdtemp(path.join(os.tmpdir(), 'codebunny-action-'));
+  await writeRule('.continue/rules/root.md', 'Root rule');
+  await writeRule('packages/api/.continue/rules/api.md', 'API rule');
+  await writeRule('vendor/rules/pack.md', 'Pack rule');
+});
+
+after(async () => {
+  process.chdir(originalCwd);
+  if (originalWorkspace === undefined) {
+    delete process.env.GITHUB_WORKSPACE;
+  } else {
+    process.env.GITHUB_WORKSPACE = originalWorkspace;
+  }
+  delete process.env.INPUT_RULE_PACKS;
+  await fs.rm(repo, { recursive: true, force: true });
+  await fs.rm(elsewhere, { recursive: true, force: true });
+});
+
+test('rules are read from GITHUB_WORKSPACE, not the directory the action runs in', async () => {
+  // The action's steps run in its own directory, away from the checked-out repository
+  process.chdir(elsewhere);
+  process.env.GITHUB_WORKSPACE = repo;
+  process.env.INPUT_RULE_PACKS = 'vendor/rules';
+
+  const rules = await loadRules(['packages/api/src/index.ts']);
+
+  assert.deepEqual(rules.map((r) => r.source).sort(), [
+    '.continue/rules/root.md',
+    'packages/api/.continue/rules/api.md',
+    'vendor/rules/pack.md',
+  ]);
+});
@@ -0,0 +1,423 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+import { getWorkspaceRoot } from './codebunny-config';
+import { FindingPriority, StructuredReview } from './review-schema';
+import { Rule } from './types';
+
+const SEVERITY_ALIASES: Record<string, FindingPriority> = {
+  high: 'high',
+  error: 'high',
+  critical: 'high',
+  medium: 'medium',
+  warning: 'medium',
+  low: 'low',
+  info: 'low',
+};
+
+/**
+ * Load rules from shared rule packs, the root .continue/rules directory and nested
+ * .continue/rules directories, which only apply to their own subtree
+ * Returns only the rules that apply to the changed files, highest priority first
+ */
+export async function loadRules(changedFiles: string[], root: string = getWorkspaceRoot()): Promise<Rule[]> {
+  let candidates: Rule[] = [];
+
+  try {
+    const packs: Rule[][] = [];
+    for (const entry of getRulePacks()) {
+      packs.push(await loadRulePack(entry, root));
+    }
+
+    const ruleFiles = await glob('**/.continue/rules/*.md', {
+      cwd: root,
+      dot: true,
+      ignore: ['**/node_modules/**', '**/.git/**'],
+    });
+
+    const repoRules: Rule[] = [];
+    for (const ruleFile of ruleFiles.sort()) {
+      const scope = path.dirname(path.dirname(path.dirname(ruleFile))).replace(/\\/g, '/');
+      const rule = await readRule(path.join(root, ruleFile), {
+        source: ruleFile.replace(/\\/g, '/'),
+        scope: scope === '.' ? '' : scope,
+      });
+      if (rule) {
+        repoRules.push(rule);
+      }
+    }
+
+    candidates = resolveRuleOverrides(packs, repoRules);
+  } catch (error) {
+    core.warning(`Failed to load rules: ${error}`);
+  }
+
+  return mergeRules(candidates.filter((rule) => shouldApplyRule(rule, changedFiles)));
+}
+
+/**
+ * Read the rule-packs input: vendored rule directories or npm packages, lowest precedence first
+ */
+export function getRulePacks(): string[] {
+  const raw = process.env.INPUT_RULE_PACKS || core.getInput('rule-packs');
+  return raw
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve which rule wins when several sources define a rule with the same file name
+ * A later pack overrides an earlier one, repository rules override packs, and a nested
+ * rule overrides less specific ones inside its own subtree only
+ */
+export function resolveRuleOverrides(packs: Rule[][], repoRules: Rule[]): Rule[] {
+  const packRules = new Map<string, Rule>();
+  for (const rule of packs.flat()) {
+    const overridden = packRules.get(rule.file);
+    if (overridden) {
+      core.info(`Rule ${rule.source} overrides ${overridden.source}`);
+    }
+    packRules.set(rule.file, rule);
+  }
+
+  for (const rule of repoRules.filter((r) => r.scope === '')) {
+    const overridden = packRules.get(rule.file);
+    if (overridden) {
+      core.info(`Rule ${rule.source} overrides ${overridden.source}`);
+      packRules.delete(rule.file);
+    }
+  }
+
+  const rules = [...packRules.values(), ...repoRules];
+
+  // Exclude each nested rule's subtree from the less specific rules it overrides
+  for (const nested of rules.filter((r) => r.scope !== '')) {
+    for (const outer of rules) {
+      if (outer === nested || outer.file !== nested.file || !isWithinScope(nested.scope, outer.scope)) {
+        continue;
+      }
+      if (outer.scope === nested.scope) {
+        continue;
+      }
+      const subtree = outer.scope ? nested.scope.slice(outer.scope.length + 1) : nested.scope;
+      outer.exclude = [...outer.exclude, `${subtree}/**`];
+      core.info(`Rule ${nested.source} overrides ${outer.source} in ${nested.scope}/`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Order rules by priority (highest first, then by source path)
+ */
+export function mergeRules(rules: Rule[]): Rule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority || a.source.localeCompare(b.source));
+}
+
+/**
+ * Enforce rule frontmatter on findings attributed to a rule
+ * Applies the rule's severity and keeps at most maxFindings per rule, dropping the lowest priority ones
+ */
+export function applyRuleLimits(review: StructuredReview, rules: Rule[]): StructuredReview {
+  // Findings name a rule by its source path; a bare file name resolves to the highest priority match
+  const byId = new Map<string, Rule>();
+  for (const rule of [...rules].reverse()) {
+    byId.set(rule.file, rule);
+  }
+  for (const rule of rules) {
+    byId.set(rule.source, rule);
+  }
+
+  const rank: Record<FindingPriority, number> = { high: 0, medium: 1, low: 2 };
+
+  const findings = review.findings.map((finding) => {
+    const rule = finding.rule ? byId.get(finding.rule) : undefined;
+    return rule?.severity ? { ...finding, priority: rule.severity } : finding;
+  });
+
+  // Visit the most important findings first so the limit drops the least important ones
+  const order = findings
+    .map((_, i) => i)
+    .sort((a, b) => rank[findings[a].priority] - rank[findings[b].priority]);
+  const counts = new Map<string, number>();
+  const keep = new Set<number>();
+
+  for (const i of order) {
+    const rule = findings[i].rule ? byId.get(findings[i].rule!) : undefined;
+    if (rule?.maxFindings !== undefined) {
+      const count = (counts.get(rule.source) || 0) + 1;
+      counts.set(rule.source, count);
+      if (count > rule.maxFindings) continue;
+    }
+    keep.add(i);
+  }
+
+  const dropped = findings.length - keep.size;
+  if (dropped > 0) {
+    core.info(`Dropped ${dropped} findings over their rule's maxFindings limit`);
+  }
+
+  return { ...review, findings: findings.filter((_, i) => keep.has(i)) };
+}
+
+/**
+ * Record in the review's coverage where each applied rule came from
+ */
+export function recordRuleSources(review: StructuredReview, rules: Rule[]): StructuredReview {
+  if (!review.coverage || rules.length === 0) {
+    return review;
+  }
+  return { ...review, coverage: { ...review.coverage, rules: rules.map((rule) => rule.source) } };
+}
+
+/**
+ * Describe how findings for a rule must be reported, for the prompt
+ */
+export function formatRuleMetadata(rule: Rule): string {
+  const parts = [`rule: \`${rule.source}\``];
+  if (rule.severity) {
+    parts.push(`violations are ${rule.severity} priority`);
+  }
+  if (rule.maxFindings !== undefined) {
+    parts.push(`report at most ${rule.maxFindings}`);
+  }
+  return `(${parts.join(', ')})`;
+}
+
+async function readRule(filepath: string, origin: { source: string; scope: string }): Promise<Rule | null> {
+  return parseRule(filepath, await fs.readFile(filepath, 'utf-8'), origin);
+}
+
+/**
+ * Parse a rule file with YAML frontmatter
+ */
+function parseRule(
+  filepath: string,
+  content: string,
+  origin: { source: string; scope: string }
+): Rule | null {
+  const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+
+  if (!frontmatterMatch) {
+    return null;
+  }
+
+  try {
+    const frontmatter = (yaml.load(frontmatterMatch[1]) || {}) as Record<string, unknown>;
+    const ruleContent = frontmatterMatch[2].trim();
+    const name = path.basename(filepath);
+
+    return {
+      file: name,
+      source: origin.source,
+      scope: origin.scope,
+      globs: parsePatternList(frontmatter.globs),
+      exclude: parsePatternList(frontmatter.exclude),
+      description: frontmatter.description as string | undefined,
+      alwaysApply: typeof frontmatter.alwaysApply === 'boolean' ? frontmatter.alwaysApply : undefined,
+      severity: parseSeverity(frontmatter.severity, name),
+      priority: parseNumber(frontmatter.priority, 'priority', name) ?? 0,
+      maxFindings: parseNumber(frontmatter.maxFindings, 'maxFindings', name),
+      patterns: parseStringList(frontmatter.pattern ?? frontmatter.patterns),
+      bannedImports: parseStringList(frontmatter.bannedImports),
+      message: typeof frontmatter.message === 'string' ? frontmatter.message : undefined,
+      content: ruleContent,
+    };
+  } catch (error) {
+    core.warning(`Failed to parse rule ${filepath}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Check if a rule should apply to the changed files
+ * Follows Continue's semantics: alwaysApply: true always applies, globs restrict the rule to matching
+ * files, and a rule with neither globs nor alwaysApply: false applies everywhere. An alwaysApply: false
+ * rule without globs is left to the model, which judges relevance from its description
+ */
+export function shouldApplyRule(rule: Rule, changedFiles: string[]): boolean {
+  const files = changedFiles.filter((file) => isInRuleScope(rule, file));
+
+  if (files.length === 0) {
+    return false;
+  }
+
+  if (rule.alwaysApply === true) {
+    return true;
+  }
+
+  if (rule.globs.every((p) => p.startsWith('!'))) {
+    return rule.alwaysApply === false ? !!rule.description : true;
+  }
+
+  return files.some((file) => ruleAppliesToFile(rule, file));
+}
+
+/**
+ * Check whether a single file is covered by a rule's scope, globs and exclusions
+ * A rule without include globs covers every file in its scope
+ */
+export function ruleAppliesToFile(rule: Rule, file: string): boolean {
+  if (!isInRuleScope(rule, file)) {
+    return false;
+  }
+
+  const include = rule.globs.filter((p) => !p.startsWith('!'));
+  const relative = relativeToScope(rule, file);
+  return include.length === 0 || include.some((pattern) => matchesPattern(relative, pattern));
+}
+
+/**
+ * Nested rules only see their own subtree, and a file matching an exclusion is out of scope
+ */
+function isInRuleScope(rule: Rule, file: string): boolean {
+  if (!isWithinScope(file, rule.scope)) {
+    return false;
+  }
+
+  const relative = relativeToScope(rule, file);
+  const exclude = [
+    ...rule.exclude,
+    ...rule.globs.filter((p) => p.startsWith('!')).map((p) => p.slice(1)),
+  ];
+  return !exclude.some((pattern) => matchesPattern(relative, pattern));
+}
+
+function relativeToScope(rule: Rule, file: string): string {
+  return rule.scope ? file.slice(rule.scope.length + 1) : file;
+}
+
+/**
+ * Glob matching with minimatch; patterns without a slash match at any depth, like .gitignore
+ */
+export function matchesPattern(filepath: string, pattern: string): boolean {
+  return minimatch(filepath, pattern.replace(/^\.\//, ''), {
+    dot: true,
+    matchBase: !pattern.includes('/'),
+  });
+}
+
+/**
+ * Load the *.md rules of a shared rule pack
+ * An entry is a directory relative to the repository, or an installed npm package whose
+ * rules live in the directory named by "codebunny.rules" in its package.json (default "rules")
+ */
+async function loadRulePack(entry: string, root: string): Promise<Rule[]> {
+  let dir = path.resolve(root, entry);
+  let label = path.relative(root, dir).replace(/\\/g, '/');
+
+  if (!(await isDirectory(dir))) {
+    try {
+      const manifestPath = require.resolve(`${entry}/package.json`, { paths: [root] });
+      const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+      const rulesDir = manifest.codebunny?.rules || 'rules';
+      dir = path.join(path.dirname(manifestPath), rulesDir);
+      label = `${entry}/${rulesDir}`.replace(/\/+$/, '');
+    } catch {
+      core.warning(`Rule pack "${entry}" is neither a directory nor an installed npm package`);
+      return [];
+    }
+  }
+
+  const rules: Rule[] = [];
+  const ruleFiles = await glob('*.md', { cwd: dir });
+
+  for (const ruleFile of ruleFiles.sort()) {
+    const rule = await readRule(path.join(dir, ruleFile), { source: `${label}/${ruleFile}`, scope: '' });
+    if (rule) {
+      rules.push(rule);
+    }
+  }
+
+  core.info(`Loaded ${rules.length} rules from rule pack ${label}`);
+  return rules;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path is inside a scope directory ('' is the repository root)
+ */
+function isWithinScope(filepath: string, scope: string): boolean {
+  return scope === '' || filepath.startsWith(`${scope}/`);
+}
+
+/**
+ * Accept globs as a YAML list or a comma-separated string, keeping commas inside {a,b} braces
+ */
+function parsePatternList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const items = Array.isArray(value) ? value.map(String) : splitOutsideBraces(String(value));
+  return items.map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Accept a single string or a YAML list; unlike globs, commas are not separators
+ */
+function parseStringList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+function splitOutsideBraces(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseSeverity(value: unknown, ruleName: string): FindingPriority | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const severity = SEVERITY_ALIASES[String(value).trim().toLowerCase()];
+  if (!severity) {
+    core.warning(`Ignoring invalid severity "${value}" in rule ${ruleName}`);
+  }
+  return severity;
+}
+
+function parseNumber(value: unknown, field: string, ruleName: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || (field === 'maxFindings' && number < 0)) {
+    core.warning(`Ignoring invalid ${field} "${value}" in rule ${ruleName}`);
+    return undefined;
+  }
+  return number;
+}
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as github from '@actions/github';
+import { checkTriggerCooldown } from './trigger-guard';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+interface Comment {
+  id: number;
+  created_at: string;
+  body: string;
+  user: { login: string; type: string };
+}
+
+function mention(id: number, login: string, createdAt: string): Comment {
+  return { id, created_at: createdAt, body: '@codebunny review', user: { login, type: 'User' } };
+}
+
+/**
+ * Just enough of Octokit for listAll: every list endpoint returns the same single page
+ */
+function fakeOctokit(comments: Comment[]): Octokit {
+  const list = async () => ({ data: comments });
+  return {
+    rest: { issues: { listComments: list, listCommentsForRepo: list } },
+    paginate: {
+      iterator: async function* () {
+        yield { data: comments, headers: {} };
+      },
+    },
+  } as unknown as Octokit;
+}
+
+test('two quick mentions by different users do not refuse each other', async () => {
+  const alice = mention(1, 'alice', '2024-01-01T12:00:00Z');
+  const bob = mention(2, 'bob', '2024-01-01T12:00:05Z');
+  const octokit = fakeOctokit([alice, bob]);
+
+  const first = await checkTriggerCooldown(octokit, 'acme', 'widgets', 7, { ...alice, author: alice.user });
+  const second = await checkTriggerCooldown(octokit, 'acme', 'widgets', 7, { ...bob, author: bob.user });
+
+  assert.deepEqual(first, { allowed: true });
+  assert.equal(second.allowed, false);
+});
+
+test('mentions in the same second are ordered by comment ID', async () => {
+  const alice = mention(1, 'alice', '2024-01-01T12:00:00Z');
+  const bob = mention(2, 'bob', '2024-01-01T12:00:00Z');
+  const octokit = fakeOctokit([alice, bob]);
+
+  const first = await checkTriggerCooldown(octokit, 'acme', 'widgets', 7, { ...alice, author: alice.user });
+  const second = await checkTriggerCooldown(octokit, 'acme', 'widgets', 7, { ...bob, author: bob.user });
+
+  assert.deepEqual(first, { allowed: true });
+  assert.equal(second.allowed, false);
+});
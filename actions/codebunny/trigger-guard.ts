@@ -0,0 +1,187 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { PERMISSION_LEVELS, PermissionLevel, getConfig } from './codebunny-config';
+import { listAll } from './github-pagination';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+type IssueComment = Awaited<ReturnType<Octokit['rest']['issues']['listComments']>>['data'][number];
+
+export interface TriggerAuthor {
+  login: string;
+  type?: string;
+}
+
+/**
+ * Outcome of a trigger check
+ * Refusals with a reply are explained to the commenter; the rest are skipped silently
+ */
+export type TriggerDecision = { allowed: true } | { allowed: false; reason: string; reply?: string };
+
+const MENTION_PATTERN = /@codebunny\b/i;
+
+/**
+ * Whether an account is a bot, including GitHub Apps that post as "name[bot]"
+ */
+export function isBotAccount(author: TriggerAuthor): boolean {
+  return author.type === 'Bot' || author.login.endsWith('[bot]');
+}
+
+/**
+ * Check who may trigger CodeBunny: bots and blocked users are ignored, and other authors need
+ * triggers.minPermission on the repository
+ */
+export async function checkTriggerAuthor(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  author: TriggerAuthor
+): Promise<TriggerDecision> {
+  const { blockedUsers, minPermission } = getConfig().triggers;
+
+  if (isBotAccount(author)) {
+    return { allowed: false, reason: `${author.login} is a bot account` };
+  }
+
+  if (blockedUsers.some((user) => user.toLowerCase() === author.login.toLowerCase())) {
+    return { allowed: false, reason: `${author.login} is listed in triggers.blockedUsers` };
+  }
+
+  const permission = await getPermissionLevel(octokit, owner, repo, author.login);
+  if (!permission || !hasPermission(permission, minPermission)) {
+    return {
+      allowed: false,
+      reason: `${author.login} has ${permission || 'no'} permission, ${minPermission} is required`,
+      reply: `Sorry @${author.login}, CodeBunny only runs for people with **${minPermission}** access to this repository. A maintainer can ask for a review on your behalf.`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Rate limit @codebunny comments: one per user within triggers.userCooldownMinutes across the
+ * repository, and one per pull request within triggers.prCooldownMinutes
+ * Earlier mentions are counted whether or not they were answered
+ */
+export async function checkTriggerCooldown(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  comment: { id: number; created_at: string; author: TriggerAuthor }
+): Promise<TriggerDecision> {
+  const { userCooldownMinutes, prCooldownMinutes } = getConfig().triggers;
+  const createdAt = new Date(comment.created_at).getTime();
+
+  try {
+    if (prCooldownMinutes > 0) {
+      const since = new Date(createdAt - prCooldownMinutes * 60 * 1000);
+      const recent = findRecentMentions(
+        await listAll(
+          octokit,
+          octokit.rest.issues.listComments,
+          { owner, repo, issue_number: prNumber, since: since.toISOString() },
+          { label: 'recent PR comments' }
+        ),
+        comment,
+        since
+      );
+      if (recent.length > 0) {
+        return refuseCooldown(comment.author, recent, prCooldownMinutes, 'on this pull request');
+      }
+    }
+
+    if (userCooldownMinutes > 0) {
+      const since = new Date(createdAt - userCooldownMinutes * 60 * 1000);
+      const recent = findRecentMentions(
+        await listAll(
+          octokit,
+          octokit.rest.issues.listCommentsForRepo,
+          { owner, repo, since: since.toISOString(), sort: 'created', direction: 'desc' },
+          { label: 'recent repository comments' }
+        ),
+        comment,
+        since
+      ).filter((c) => c.user?.login === comment.author.login);
+      if (recent.length > 0) {
+        return refuseCooldown(comment.author, recent, userCooldownMinutes, 'by you');
+      }
+    }
+  } catch (error) {
+    // Failing open keeps a GitHub API hiccup from blocking legitimate requests
+    core.warning(`Failed to check the @codebunny cooldown: ${error}`);
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Compare repository permission levels from lowest (read) to highest (admin)
+ */
+export function hasPermission(actual: PermissionLevel, required: PermissionLevel): boolean {
+  return PERMISSION_LEVELS.indexOf(actual) >= PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * Look up a user's repository role; role_name distinguishes triage and maintain,
+ * which the legacy permission field reports as read and write
+ */
+export async function getPermissionLevel(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string
+): Promise<PermissionLevel | null> {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    const level = (data.role_name || data.permission) as PermissionLevel;
+    return PERMISSION_LEVELS.includes(level) ? level : null;
+  } catch (error) {
+    core.warning(`Failed to look up ${username}'s permission, treating it as none: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Mentions posted since the cooldown started and before the current comment
+ * Later mentions are left to their own runs, so two quick mentions do not refuse each other
+ */
+function findRecentMentions(
+  comments: IssueComment[],
+  current: { id: number; created_at: string },
+  since: Date
+): IssueComment[] {
+  const currentCreatedAt = new Date(current.created_at).getTime();
+  return comments.filter(
+    (c) =>
+      isEarlierComment(c, currentCreatedAt, current.id) &&
+      new Date(c.created_at) >= since &&
+      !isBotAccount({ login: c.user?.login || '', type: c.user?.type }) &&
+      MENTION_PATTERN.test(c.body || '')
+  );
+}
+
+/**
+ * Order comments by creation time, then by ID for comments created in the same second
+ */
+function isEarlierComment(comment: IssueComment, createdAt: number, id: number): boolean {
+  const commentCreatedAt = new Date(comment.created_at).getTime();
+  return commentCreatedAt < createdAt || (commentCreatedAt === createdAt && comment.id < id);
+}
+
+function refuseCooldown(
+  author: TriggerAuthor,
+  recent: IssueComment[],
+  minutes: number,
+  scope: string
+): TriggerDecision {
+  const latest = Math.max(...recent.map((c) => new Date(c.created_at).getTime()));
+  const retryAt = new Date(latest + minutes * 60 * 1000);
+  const wait = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 60000));
+
+  return {
+    allowed: false,
+    reason: `@codebunny was already called ${scope} in the last ${minutes} minutes`,
+    reply: `Hi @${author.login}, CodeBunny was already asked ${scope} in the last ${minutes} minutes. Please try again in about ${wait} minute${wait !== 1 ? 's' : ''}.`,
+  };
+}
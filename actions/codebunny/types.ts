@@ -0,0 +1,45 @@
+import { FindingPriority, ReviewFinding } from './review-schema';
+
+export interface Rule {
+  file: string;
+  source: string;
+  scope: string;
+  globs: string[];
+  exclude: string[];
+  description?: string;
+  alwaysApply?: boolean;
+  severity?: FindingPriority;
+  priority: number;
+  maxFindings?: number;
+  patterns: string[];
+  bannedImports: string[];
+  message?: string;
+  content: string;
+}
+
+export interface PRFile {
+  filename: string;
+  patch?: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface ReviewContext {
+  pr: {
+    number: number;
+    title: string;
+    body: string;
+    author: string;
+    files: PRFile[];
+  };
+  rules: Rule[];
+  command?: string;
+  repository: string;
+  incremental?: IncrementalContext;
+}
+
+export interface IncrementalContext {
+  baseSha: string;
+  headSha: string;
+  previousFindings: ReviewFinding[];
+}
@@ -0,0 +1,183 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import * as yaml from 'js-yaml';
+import { getWorkspaceRoot } from './codebunny-config';
+import { StructuredReview } from './review-schema';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the repository root, without a trailing slash */
+  dir: string;
+}
+
+/**
+ * A monorepo: the tools that define it (pnpm, yarn, npm, Nx, Turborepo) and its packages
+ */
+export interface Workspace {
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+const IGNORED_DIRS = ['**/node_modules/**', '**/dist/**', '**/.git/**'];
+
+/**
+ * Detect npm, yarn and pnpm workspaces, Nx and Turborepo at the repository root
+ * Returns null for a single-package repository
+ */
+export async function detectWorkspace(root: string = getWorkspaceRoot()): Promise<Workspace | null> {
+  const tools: string[] = [];
+  const patterns: string[] = [];
+  const rootManifest = await readJson(path.join(root, 'package.json'));
+
+  const pnpmWorkspace = await readFileIfExists(path.join(root, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace !== null) {
+    tools.push('pnpm');
+    const config = yaml.load(pnpmWorkspace) as { packages?: string[] } | undefined;
+    patterns.push(...(config?.packages || []));
+  }
+
+  const declared = rootManifest?.workspaces;
+  const workspaces: unknown = Array.isArray(declared) ? declared : declared?.packages;
+  if (Array.isArray(workspaces) && workspaces.length > 0) {
+    if (tools.length === 0) {
+      const usesYarn =
+        existsSync(path.join(root, 'yarn.lock')) || String(rootManifest.packageManager || '').startsWith('yarn');
+      tools.push(usesYarn ? 'yarn' : 'npm');
+    }
+    patterns.push(...workspaces.filter((p): p is string => typeof p === 'string'));
+  }
+
+  const nx = await readJson(path.join(root, 'nx.json'));
+  if (nx) {
+    tools.push('Nx');
+    // Nx without package manager workspaces keeps projects under workspaceLayout
+    if (patterns.length === 0) {
+      const layout = nx.workspaceLayout || {};
+      patterns.push(`${layout.appsDir || 'apps'}/*`, `${layout.libsDir || 'libs'}/*`);
+    }
+  }
+
+  if (existsSync(path.join(root, 'turbo.json'))) {
+    tools.push('Turborepo');
+  }
+
+  if (tools.length === 0) {
+    return null;
+  }
+
+  const packages = await expandPackages(root, patterns, tools.includes('Nx'));
+  if (packages.length === 0) {
+    core.debug(`${tools.join(' + ')} workspace detected but no packages were found`);
+    return null;
+  }
+
+  core.info(`Detected ${tools.join(' + ')} workspace with ${packages.length} packages`);
+  return { tools, packages };
+}
+
+/**
+ * The package a file belongs to: the one with the longest directory that contains it
+ */
+export function findOwningPackage<T extends { dir: string }>(file: string, packages: T[]): T | undefined {
+  let owner: T | undefined;
+  for (const pkg of packages) {
+    if (file.startsWith(`${pkg.dir}/`) && (!owner || pkg.dir.length > owner.dir.length)) {
+      owner = pkg;
+    }
+  }
+  return owner;
+}
+
+/**
+ * Group items by owning package, keeping package order and putting files outside any
+ * package last
+ */
+export function groupByPackage<T, P extends { dir: string }>(
+  items: T[],
+  getFile: (item: T) => string | undefined,
+  packages: P[]
+): Array<{ pkg?: P; items: T[] }> {
+  const groups = new Map<P | undefined, T[]>();
+  for (const item of items) {
+    const file = getFile(item);
+    const pkg = file ? findOwningPackage(file, packages) : undefined;
+    groups.set(pkg, [...(groups.get(pkg) || []), item]);
+  }
+
+  const ordered = packages.filter((pkg) => groups.has(pkg)).map((pkg) => ({ pkg, items: groups.get(pkg)! }));
+  const outside = groups.get(undefined);
+  return outside ? [...ordered, { items: outside }] : ordered;
+}
+
+/**
+ * Record in the review's coverage which packages the changed files belong to
+ */
+export function recordPackages(
+  review: StructuredReview,
+  packages: Array<WorkspacePackage & { files: string[] }>
+): StructuredReview {
+  if (!review.coverage || packages.length === 0) {
+    return review;
+  }
+  const recorded = packages.map(({ name, dir, files }) => ({ name, dir, files: files.length }));
+  return { ...review, coverage: { ...review.coverage, packages: recorded } };
+}
+
+/**
+ * Resolve workspace globs (with "!" exclusions) to directories with a package.json,
+ * plus Nx project.json directories
+ */
+async function expandPackages(root: string, patterns: string[], includeNxProjects: boolean): Promise<WorkspacePackage[]> {
+  const include = patterns.filter((p) => !p.startsWith('!')).map((p) => p.replace(/\/+$/, ''));
+  const exclude = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1).replace(/\/+$/, ''));
+  const ignore = [...IGNORED_DIRS, ...exclude.map((p) => `${p}/**`)];
+
+  const manifests = new Set<string>();
+  for (const pattern of include) {
+    for (const manifest of await glob(`${pattern}/package.json`, { cwd: root, ignore, posix: true })) {
+      manifests.add(manifest);
+    }
+  }
+  if (includeNxProjects) {
+    for (const manifest of await glob('**/project.json', { cwd: root, ignore, posix: true })) {
+      manifests.add(manifest);
+    }
+  }
+
+  const packages = new Map<string, WorkspacePackage>();
+  for (const manifest of Array.from(manifests).sort()) {
+    const dir = path.posix.dirname(manifest);
+    if (dir === '.') continue;
+
+    // package.json names win over project.json names for the same directory
+    const data = await readJson(path.join(root, manifest));
+    const existing = packages.get(dir);
+    if (!existing || manifest.endsWith('package.json')) {
+      packages.set(dir, { name: typeof data?.name === 'string' ? data.name : existing?.name || dir, dir });
+    }
+  }
+
+  return Array.from(packages.values());
+}
+
+async function readJson(filepath: string): Promise<any | null> {
+  const content = await readFileIfExists(filepath);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    core.debug(`Failed to parse ${filepath}: ${error}`);
+    return null;
+  }
+}
+
+async function readFileIfExists(filepath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filepath, 'utf-8');
+  } catch {
+    return null;
+  }
+}